@@ -0,0 +1,234 @@
+import fs from "fs";
+import { OthelloBoard, chooseMove, exportTranscript, type Player } from "othello-game";
+import { getTranscriptHeaders, loadSession, saveSession, type BotSession } from "./session.js";
+import type { TurnGuard } from "./turn-guard.js";
+import type { UsageTracker } from "./usage-tracker.js";
+
+/**
+ * State the slash commands work on. Commands change the session in place, so that the REPL
+ * keeps working with the same object after /load or /reset.
+ */
+export type CommandContext = {
+  session: BotSession;
+  /**
+   * File used by /save and /load when no file is given.
+   */
+  sessionFile: string;
+  usage: UsageTracker;
+  turnGuard: TurnGuard;
+  /**
+   * Notes for the model about changes made by commands (e.g. /undo). They are sent along with the
+   * next user message, because the model does not see the commands.
+   */
+  pendingNotes: string[];
+  log: (text: string) => void;
+  quit: () => Promise<never>;
+};
+
+export type SlashCommand = {
+  name: string;
+  /**
+   * Arguments shown in the help text, e.g. "[file]".
+   */
+  args?: string;
+  description: string;
+  run: (args: string[], context: CommandContext) => Promise<void> | void;
+};
+
+// The human plays Black, the bot White (see system-prompt.md)
+const HUMAN_PLAYER: Player = "B";
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: "/help",
+    description: "Show the available commands",
+    run: (_args, context) => context.log(getHelpText()),
+  },
+  {
+    name: "/board",
+    description: "Show the board",
+    run: (_args, context) => console.log(`\n${context.session.board.toFormattedString()}`),
+  },
+  {
+    name: "/moves",
+    description: "List the valid moves of the player to move",
+    run: (_args, context) => {
+      const board = context.session.board;
+      const moves = board.getValidMoves().moves.map((move) => OthelloBoard.formatPosition(move.position));
+      context.log(
+        moves.length > 0
+          ? `${getPlayerName(board.getCurrentPlayer())} can play: ${moves.join(", ")}`
+          : `${getPlayerName(board.getCurrentPlayer())} has no valid moves.`,
+      );
+    },
+  },
+  {
+    name: "/undo",
+    description: "Take back the last move (and the bot's reply) so that it is your turn again",
+    run: (_args, context) => {
+      const board = context.session.board;
+      if (!board.undo()) {
+        context.log("There is nothing to undo.");
+        return;
+      }
+      // Also take back the bot's reply (and passes) so that it is the human's turn again
+      while (board.getCurrentPlayer() !== HUMAN_PLAYER) {
+        if (!board.undo()) {
+          break;
+        }
+      }
+
+      const moves = board.getHistory().length;
+      context.pendingNotes.push(
+        `The user took back moves with /undo. ${moves} moves remain in the history and it is ${getPlayerName(board.getCurrentPlayer())}'s turn. Check the board before you continue.`,
+      );
+      context.log(`Moves taken back, ${moves} moves remain.`);
+      console.log(`\n${board.toFormattedString()}`);
+    },
+  },
+  {
+    name: "/hint",
+    description: "Ask the engine for a good move",
+    run: (_args, context) => {
+      const board = context.session.board;
+      const move = chooseMove(board, { strategy: "minimax", depth: 6, timeLimitMs: 2000 });
+      context.log(
+        move
+          ? `Hint for ${getPlayerName(board.getCurrentPlayer())}: ${OthelloBoard.formatPosition(move.position)} (score ${move.score})`
+          : `${getPlayerName(board.getCurrentPlayer())} has no valid moves.`,
+      );
+    },
+  },
+  {
+    name: "/score",
+    description: "Show the number of stones of both players",
+    run: (_args, context) => {
+      const status = context.session.board.getGameStatus();
+      const { black, white } = status.statistics;
+      let text = `Black (●) ${black} : ${white} White (○)`;
+      if (status.isGameOver) {
+        text += status.winner === "draw" ? " - the game ended in a draw." : ` - ${getPlayerName(status.winner!)} won.`;
+      } else {
+        text += ` - ${getPlayerName(status.currentPlayer)} to move.`;
+      }
+      context.log(text);
+    },
+  },
+  {
+    name: "/reset",
+    description: "Start a new game and a new conversation",
+    run: (_args, context) => {
+      context.session.board.reset();
+      context.session.previousResponseId = null;
+      context.session.transcript = [];
+      context.pendingNotes.length = 0;
+      context.turnGuard.reset();
+      context.usage.startGame();
+      context.log("New game started.");
+      console.log(`\n${context.session.board.toFormattedString()}`);
+    },
+  },
+  {
+    name: "/tokens",
+    description: "Show the tokens used and their costs per turn, game and session",
+    run: (_args, context) => context.log(context.usage.getSummary()),
+  },
+  {
+    name: "/export",
+    args: "[file]",
+    description: "Print the game transcript or write it to a file",
+    run: async (args, context) => {
+      const transcript = exportTranscript(context.session.board, getTranscriptHeaders(context.session));
+      const file = args[0];
+      if (file) {
+        await fs.promises.writeFile(file, transcript, { encoding: "utf-8" });
+        context.log(`Transcript written to ${file}`);
+      } else {
+        console.log(`\n${transcript}`);
+      }
+    },
+  },
+  {
+    name: "/save",
+    args: "[file]",
+    description: "Save the session (board, player name, conversation)",
+    run: async (args, context) => {
+      context.sessionFile = args[0] ?? context.sessionFile;
+      await saveSession(context.sessionFile, context.session);
+      context.log(`Session saved to ${context.sessionFile}`);
+    },
+  },
+  {
+    name: "/load",
+    args: "[file]",
+    description: "Load a saved session",
+    run: async (args, context) => {
+      context.sessionFile = args[0] ?? context.sessionFile;
+      Object.assign(context.session, await loadSession(context.sessionFile));
+      context.pendingNotes.length = 0;
+      context.turnGuard.reset();
+      context.usage.startGame();
+      printSessionSummary(context, `Loaded session from ${context.sessionFile}`);
+    },
+  },
+  {
+    name: "/quit",
+    description: "Exit the bot",
+    run: (_args, context) => context.quit(),
+  },
+];
+
+export function isSlashCommand(line: string): boolean {
+  return line.trim().startsWith("/");
+}
+
+/**
+ * Runs a line starting with "/" as slash command. Errors are reported via context.log.
+ */
+export async function runSlashCommand(line: string, context: CommandContext): Promise<void> {
+  const [name = "", ...args] = line.trim().split(/\s+/);
+  const command = SLASH_COMMANDS.find((command) => command.name === name.toLowerCase());
+  if (!command) {
+    context.log(`Unknown command ${name}. Type /help to see the available commands.`);
+    return;
+  }
+
+  try {
+    await command.run(args, context);
+  } catch (error) {
+    context.log(`${name} failed: ${error}`);
+  }
+}
+
+/**
+ * Completer for readline: completes command names while the line consists of a partial command.
+ */
+export function completeSlashCommand(line: string): [string[], string] {
+  if (!line.startsWith("/") || /\s/.test(line)) {
+    return [[], line];
+  }
+
+  const names = SLASH_COMMANDS.map((command) => command.name);
+  const hits = names.filter((name) => name.startsWith(line.toLowerCase()));
+  return [hits.length > 0 ? hits : names, line];
+}
+
+export function printSessionSummary(context: CommandContext, title: string): void {
+  const { board, playerName } = context.session;
+  context.log(
+    `${title}: ${playerName ?? "unknown player"}, ${board.getHistory().length} moves played, ${getPlayerName(board.getCurrentPlayer())} to move`,
+  );
+  console.log(`\n${board.toFormattedString()}`);
+}
+
+function getHelpText(): string {
+  const lines = SLASH_COMMANDS.map((command) => {
+    const usage = command.args ? `${command.name} ${command.args}` : command.name;
+    return `  ${usage.padEnd(16)}${command.description}`;
+  });
+  return `Commands (handled locally, without asking the model):\n${lines.join("\n")}`;
+}
+
+function getPlayerName(player: Player): string {
+  return player === "B" ? "Black (●)" : "White (○)";
+}
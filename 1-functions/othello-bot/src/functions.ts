@@ -1,6 +1,9 @@
 import type { FunctionTool, ResponseCustomToolCallOutput } from "openai/resources/responses/responses.mjs";
-import type { OthelloBoard } from "othello-game";
+import { MAX_ENDGAME_EMPTIES, OthelloBoard, chooseMove, isInvalidBoardResult, solveEndgame, type Move } from "othello-game";
 import { z } from "zod";
+import type { BotSession } from "./session.js";
+import { TurnGuard } from "./turn-guard.js";
+import type { UsageTracker } from "./usage-tracker.js";
 
 export const EmptyObjectSchema = z.object({});
 
@@ -12,39 +15,72 @@ export const resetBoardTool: FunctionTool = {
   parameters: z.toJSONSchema(EmptyObjectSchema),
 };
 
-export const getValidMovesTool: FunctionTool = {
+export const GameStateSchema = z.object({
+  showBoard: z.boolean().describe("True to also show the board to the user, e.g. after a move"),
+});
+
+export const getGameStateTool: FunctionTool = {
   type: "function",
-  name: "getValidMoves",
-  description: `Gets the valid moves given the current board state and the player to move as well as the current 
-     board state and game statistics (which player has how many stones). Will return an array with valid 
-     moves. For each valid move, it will also return the stones that would be flipped with that move.`,
-  parameters: z.toJSONSchema(EmptyObjectSchema),
+  name: "getGameState",
+  description: `Gets the current board (one line per row, row 1 first, B = black, W = white, . = empty), the player
+     to move and the valid moves of that player in chess-style notation (e.g. "D3"), each with the stones it
+     would flip. The returned status tells whether the player to move must pass, whether the game is over,
+     who won and how many stones each player has. With showBoard, the board is also shown to the user.`,
+  parameters: z.toJSONSchema(GameStateSchema),
   strict: true,
 };
 
-export const PositionSchema = z.object({
-  row: z.number().min(0).max(7),
-  col: z.number().min(0).max(7),
+export const MoveSchema = z.object({
+  position: z.string().describe('Field in chess-style notation, column A-H and row 1-8, e.g. "D3"'),
 });
-export type Position = z.infer<typeof PositionSchema>;
 
 export const tryApplyMoveTool: FunctionTool = {
   type: "function",
   name: "tryApplyMove",
   description:
-    "Tries to apply a move given the current board state and the player to move. Row and column are 0-7. Will return a boolean indicating if the move was successful. Use the getBoard function to get the current board state after the move.",
-  parameters: z.toJSONSchema(PositionSchema),
+    'Tries to apply a move for the player to move, e.g. "D3". Only one move for the user is accepted per user message. On success, returns the player, the field of the new stone and the flipped stones (e.g. ["D4"]), the resulting board, the players that had no valid moves afterwards and passed automatically (autoPassed) and the game status (whose turn it is, whether the game is over, the winner). If the move is not allowed, returns the reason (unparsable, off-board, occupied, no-flips, game-over, awaiting-user) and an error message explaining it.',
+  parameters: z.toJSONSchema(MoveSchema),
+  strict: true,
+};
+
+export const getEngineSuggestionTool: FunctionTool = {
+  type: "function",
+  name: "getEngineSuggestion",
+  description:
+    'Asks the built-in Othello engine (alpha-beta search) for the best move for the player to move. Returns the suggested position (e.g. "C3") and the engine\'s evaluation score (higher is better for the player to move), or null if the player must pass.',
+  parameters: z.toJSONSchema(EmptyObjectSchema),
   strict: true,
 };
 
-export const showBoardTool: FunctionTool = {
+export const solveEndgameTool: FunctionTool = {
   type: "function",
-  name: "showBoard",
-  description: "Shows the current board state to the user.",
+  name: "solveEndgame",
+  description: `Computes perfect play for both players until the end of the game, for positions with at most ${MAX_ENDGAME_EMPTIES} empty fields. Returns the best move for the player to move (e.g. "C3", null if the player must pass or the game is over), the final disc difference with perfect play (positive if the player to move wins) and the number of empty fields. Returns an error if there are more empty fields.`,
   parameters: z.toJSONSchema(EmptyObjectSchema),
   strict: true,
 };
 
+export const PlayerNameSchema = z.object({
+  name: z.string().min(1),
+});
+
+export const setPlayerNameTool: FunctionTool = {
+  type: "function",
+  name: "setPlayerName",
+  description: "Remembers the name of the human player. Call it as soon as the user has told you their name.",
+  parameters: z.toJSONSchema(PlayerNameSchema),
+  strict: true,
+};
+
+/**
+ * A move in chess-style notation, e.g. { position: "D3", flipped: ["D4"] }.
+ */
+function formatMove(move: Move): { position: string; flipped: string[] } {
+  return {
+    position: OthelloBoard.formatPosition(move.position),
+    flipped: move.flippedPositions.map((position) => OthelloBoard.formatPosition(position)),
+  };
+}
 
 type FunctionCallResult = {
   functionResult: ResponseCustomToolCallOutput;
@@ -53,38 +89,59 @@ type FunctionCallResult = {
 
 export async function handleFunctionCall(
   item: { name: string; call_id: string; arguments: string },
-  board: OthelloBoard,
+  session: BotSession,
+  turnGuard: TurnGuard,
+  usage: UsageTracker,
 ): Promise<FunctionCallResult> {
+  const board = session.board;
   let functionResult: ResponseCustomToolCallOutput;
   let displayOutput: Generator<string> | null = null;
 
   switch (item.name) {
     case resetBoardTool.name:
       board.reset();
+      turnGuard.reset();
+      usage.startGame();
       functionResult = {
         type: "custom_tool_call_output",
         call_id: item.call_id,
         output: "ok",
       };
       break;
-    case getValidMovesTool.name:
-      const moves = board.getValidMoves();
-      const boardWithMoves = {
-        ...moves,
-        board: board.toString(),
-        currentPlayer: board.getCurrentPlayer(),
-        stats: board.getGameStatistics(),
-      };
+    case getGameStateTool.name:
+      let showBoard: boolean;
+      try {
+        showBoard = (await GameStateSchema.parseAsync(JSON.parse(item.arguments))).showBoard;
+      } catch (error) {
+        functionResult = {
+          type: "custom_tool_call_output",
+          call_id: item.call_id,
+          output: `ERROR: ${error}`,
+        };
+        break;
+      }
+      if (showBoard) {
+        displayOutput = (function* () {
+          yield "\n\n";
+          yield board.toFormattedString();
+          yield "\n";
+        })();
+      }
       functionResult = {
         type: "custom_tool_call_output",
         call_id: item.call_id,
-        output: JSON.stringify(boardWithMoves),
+        output: JSON.stringify({
+          board: board.toString(),
+          currentPlayer: board.getCurrentPlayer(),
+          validMoves: board.getValidMoves().moves.map(formatMove),
+          status: board.getGameStatus(),
+        }),
       };
       break;
     case tryApplyMoveTool.name:
-      let position: Position;
+      let position: string;
       try {
-        position = await PositionSchema.parseAsync(JSON.parse(item.arguments));
+        position = (await MoveSchema.parseAsync(JSON.parse(item.arguments))).position;
       } catch (error) {
         functionResult = {
           type: "custom_tool_call_output",
@@ -93,22 +150,74 @@ export async function handleFunctionCall(
         };
         break;
       }
+      const moveResult = turnGuard.checkMove(board) ?? board.tryApplyMove(position);
+      if (isInvalidBoardResult(moveResult)) {
+        functionResult = {
+          type: "custom_tool_call_output",
+          call_id: item.call_id,
+          output: JSON.stringify(moveResult),
+        };
+        break;
+      }
+      const update = turnGuard.onMoveApplied(board);
+      const messages = TurnGuard.describe(update);
+      if (messages.length > 0) {
+        displayOutput = (function* () {
+          yield `\n\n${messages.join("\n")}\n`;
+        })();
+      }
+      functionResult = {
+        type: "custom_tool_call_output",
+        call_id: item.call_id,
+        output: JSON.stringify({
+          player: moveResult.player,
+          ...formatMove(moveResult),
+          board: board.toString(),
+          ...update,
+        }),
+      };
+      break;
+    case getEngineSuggestionTool.name:
+      const suggestion = chooseMove(board, { strategy: "minimax", depth: 6, timeLimitMs: 2000 });
+      functionResult = {
+        type: "custom_tool_call_output",
+        call_id: item.call_id,
+        output: JSON.stringify(
+          suggestion && { position: OthelloBoard.formatPosition(suggestion.position), score: suggestion.score },
+        ),
+      };
+      break;
+    case solveEndgameTool.name:
+      const solution = solveEndgame(board);
       functionResult = {
         type: "custom_tool_call_output",
         call_id: item.call_id,
-        output: board.tryApplyMove(position) ? "ok" : "Invalid move",
+        output: JSON.stringify(
+          solution
+            ? {
+                position: solution.position && OthelloBoard.formatPosition(solution.position),
+                discDifference: solution.discDifference,
+                emptyFields: solution.emptyFields,
+              }
+            : { error: `Too many empty fields, the solver handles positions with at most ${MAX_ENDGAME_EMPTIES}.` },
+        ),
       };
       break;
-    case showBoardTool.name:
-      displayOutput = (function* () {
-        yield "\n\n";
-        yield board.toFormattedString();
-        yield "\n";
-      })();
+    case setPlayerNameTool.name:
+      try {
+        session.playerName = (await PlayerNameSchema.parseAsync(JSON.parse(item.arguments))).name;
+      } catch (error) {
+        functionResult = {
+          type: "custom_tool_call_output",
+          call_id: item.call_id,
+          output: `ERROR: ${error}`,
+        };
+        break;
+      }
       functionResult = {
         type: "custom_tool_call_output",
         call_id: item.call_id,
-        output: `ok`,
+        output: "ok",
       };
       break;
     default:
@@ -121,4 +230,4 @@ export async function handleFunctionCall(
   }
 
   return { functionResult, displayOutput };
-}
\ No newline at end of file
+}
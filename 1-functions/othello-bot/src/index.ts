@@ -1,86 +1,250 @@
 import OpenAI from "openai";
 import fs from "fs";
-import { OthelloBoard } from "othello-game";
+import { parseArgs } from "util";
+import { exportPosition, exportTranscript } from "othello-game";
 import { readLine } from "./input-helper.js";
-import type { ResponseInputItem } from "openai/resources/responses/responses.mjs";
-import { getValidMovesTool, resetBoardTool, handleFunctionCall, showBoardTool, tryApplyMoveTool } from "./functions.js";
+import {
+  getEngineSuggestionTool,
+  getGameStateTool,
+  resetBoardTool,
+  handleFunctionCall,
+  setPlayerNameTool,
+  solveEndgameTool,
+  tryApplyMoveTool,
+} from "./functions.js";
+import { McpToolbox, loadMcpConfig } from "./mcp-client.js";
+import {
+  PROVIDER_NAMES,
+  REASONING_EFFORTS,
+  type LlmProvider,
+  type ProviderInput,
+  type ProviderName,
+  type ReasoningEffort,
+} from "./llm-provider.js";
+import { OpenAIProvider } from "./openai-provider.js";
+import { ScriptedProvider, loadScript } from "./scripted-provider.js";
+import { TurnGuard } from "./turn-guard.js";
+import { UsageTracker, loadPriceTable } from "./usage-tracker.js";
+import { TraceRecorder } from "./trace.js";
+import { DEFAULT_SESSION_FILE, addToTranscript, createSession, loadSession } from "./session.js";
+import { completeSlashCommand, isSlashCommand, printSessionSummary, runSlashCommand, type CommandContext } from "./commands.js";
 
-const client = new OpenAI();
+// Command line options; the environment variables are used as defaults
+// --provider <openai|scripted>    OTHELLO_BOT_PROVIDER
+// --model <name>                  OTHELLO_BOT_MODEL
+// --reasoning-effort <effort>     OTHELLO_BOT_REASONING_EFFORT
+// --script <file>                 OTHELLO_BOT_SCRIPT (responses replayed by the scripted provider)
+// --mcp-config <file>             MCP servers whose tools the bot may use (format of .vscode/mcp.json)
+// --resume <file>                 Continues a session saved with /save
+// --prices <file>                 Prices per model in USD per million tokens
+// --game-budget <usd>             Stops the bot when a game costs more
+// --trace <file>                  Records all function calls in a JSONL file (see replay.ts)
+const { values: args } = parseArgs({
+  options: {
+    provider: { type: "string", default: process.env.OTHELLO_BOT_PROVIDER ?? "openai" },
+    model: { type: "string", default: process.env.OTHELLO_BOT_MODEL ?? "gpt-5.2" },
+    "reasoning-effort": { type: "string", default: process.env.OTHELLO_BOT_REASONING_EFFORT ?? "none" },
+    script: { type: "string", default: process.env.OTHELLO_BOT_SCRIPT ?? "scripts/demo.json" },
+    "mcp-config": { type: "string", default: "mcp.json" },
+    resume: { type: "string" },
+    prices: { type: "string", default: "prices.json" },
+    "game-budget": { type: "string" },
+    trace: { type: "string" },
+  },
+});
+
+const provider = await createProvider();
+const usage = await createUsageTracker();
+const trace = args.trace ? await TraceRecorder.create(args.trace) : null;
+// Number of the current user message, used in the trace
+let turn = 0;
 
 const systemPrompt = await fs.promises.readFile("system-prompt.md", {
   encoding: "utf-8",
 });
 
-const board = OthelloBoard.createEmpty();
+const mcpConfig = await loadMcpConfig(args["mcp-config"]);
+const mcpToolbox = mcpConfig ? await McpToolbox.connect(mcpConfig, writeToConsoleInLightGray) : null;
+if (mcpToolbox) {
+  const toolNames = mcpToolbox.getFunctionTools().map((tool) => tool.name);
+  writeToConsoleInLightGray(`>>> Loaded ${toolNames.length} MCP tools: ${toolNames.join(", ")}\n`);
+}
 
-let previousResponseId: string | null = null;
+// Game and conversation state; the slash commands (/save, /load, /undo, ...) work on it as well
+const context: CommandContext = {
+  session: createSession(),
+  sessionFile: args.resume ?? DEFAULT_SESSION_FILE,
+  usage,
+  // The user plays Black, the model White (see system-prompt.md)
+  turnGuard: new TurnGuard("B"),
+  pendingNotes: [],
+  log: (text) => writeToConsoleInLightGray(`>>> ${text}\n`),
+  quit: async () => {
+    await mcpToolbox?.close();
+    process.exit(0);
+  },
+};
+const { session, turnGuard } = context;
+if (args.resume) {
+  try {
+    Object.assign(session, await loadSession(args.resume));
+  } catch (error) {
+    console.error(`Could not resume session: ${error}`);
+    process.exit(1);
+  }
+  printSessionSummary(context, `Resumed session from ${args.resume}`);
+}
+await trace?.record({ type: "start", game: exportTranscript(session.board) });
+context.log("Type /help for local commands that do not need the model.");
+process.on("exit", () => context.log(`Token usage\n${usage.getSummary()}`));
 
 while (true) {
-  const userMessage = await readLine("You:\n");
+  const userMessage = await readLine("You:\n", completeSlashCommand);
   console.log();
 
-  const response = createResponse(client, userMessage);
+  if (isSlashCommand(userMessage)) {
+    await trace?.record({ type: "command", turn, line: userMessage });
+    await runSlashCommand(userMessage, context);
+    continue;
+  }
+
+  turn++;
+  await trace?.record({ type: "user-message", turn, text: userMessage });
+
+  usage.startTurn();
+  const response = createResponse(provider, userMessage);
   for await (const chunk of response) {
     process.stdout.write(chunk);
   }
 
   console.log();
+  context.log(`Turn: ${usage.format("turn")}`);
+  if (usage.isGameBudgetExceeded()) {
+    context.log(
+      `The budget of $${usage.getGameBudget()!.toFixed(2)} for this game is used up ($${usage.getCost("game")!.toFixed(4)}). Stopping.`,
+    );
+    await context.quit();
+  }
+}
+
+async function createProvider(): Promise<LlmProvider> {
+  if (!PROVIDER_NAMES.includes(args.provider as ProviderName)) {
+    console.error(`Unknown provider "${args.provider}". Use one of: ${PROVIDER_NAMES.join(", ")}.`);
+    process.exit(1);
+  }
+  if (!REASONING_EFFORTS.includes(args["reasoning-effort"] as ReasoningEffort)) {
+    console.error(`Unknown reasoning effort "${args["reasoning-effort"]}". Use one of: ${REASONING_EFFORTS.join(", ")}.`);
+    process.exit(1);
+  }
+
+  if (args.provider === "scripted") {
+    return new ScriptedProvider(await loadScript(args.script));
+  }
+
+  return new OpenAIProvider(new OpenAI(), args.model, args["reasoning-effort"] as ReasoningEffort);
+}
+
+async function createUsageTracker(): Promise<UsageTracker> {
+  const gameBudget = args["game-budget"] === undefined ? null : Number(args["game-budget"]);
+  if (gameBudget !== null && !(gameBudget > 0)) {
+    console.error(`Invalid game budget "${args["game-budget"]}". Use an amount in USD, e.g. 0.50.`);
+    process.exit(1);
+  }
+
+  const price = (await loadPriceTable(args.prices))?.models[args.model] ?? null;
+  if (gameBudget !== null && !price) {
+    console.error(`A game budget requires the price of the model "${args.model}" in ${args.prices}.`);
+    process.exit(1);
+  }
+
+  return new UsageTracker(price, gameBudget);
 }
 
-async function* createResponse(client: OpenAI, userMessage: string): AsyncGenerator<string> {
-  let input: ResponseInputItem[] = [{ role: "user", content: userMessage }];
+async function* createResponse(provider: LlmProvider, userMessage: string): AsyncGenerator<string> {
+  addToTranscript(session, "user", userMessage);
+  for (const message of TurnGuard.describe(turnGuard.onUserMessage(session.board))) {
+    context.log(message);
+    context.pendingNotes.push(message);
+  }
+  // Tell the model about changes made with slash commands, it cannot see them otherwise
+  const notes = context.pendingNotes.splice(0).map((note) => `(Note: ${note})\n\n`);
+  let input: ProviderInput[] = [{ role: "user", content: notes.join("") + userMessage }];
   let requiresFurtherActions: boolean;
   do {
     requiresFurtherActions = false;
     let hasOutputText = false;
-    const response = await client.responses.create({
-      model: "gpt-5.2",
-      reasoning: {
-        effort: 'none',
-      },
-      instructions: systemPrompt,
+    let assistantText = "";
+    const response = provider.createResponse({
+      instructions: session.playerName
+        ? `${systemPrompt}\n\nThe user's name is ${session.playerName}. Do not ask for it again.`
+        : systemPrompt,
       input,
-      store: true,
-      previous_response_id: previousResponseId,
-      stream: true,
+      previousResponseId: session.previousResponseId,
       tools: [
         resetBoardTool,
-        getValidMovesTool,
+        getGameStateTool,
         tryApplyMoveTool,
-        showBoardTool,
-        // Here we would add function tools from MCP Servers
+        getEngineSuggestionTool,
+        solveEndgameTool,
+        setPlayerNameTool,
+        ...(mcpToolbox?.getFunctionTools() ?? []),
       ],
     });
-    
+
     input = [];
-    for await (const chunk of response) {
-      if (chunk.type === "response.created") {
-        previousResponseId = chunk.response.id;
-      } else if (chunk.type === "response.output_text.delta") {
+    for await (const event of response) {
+      if (event.type === "response-created") {
+        session.previousResponseId = event.responseId;
+      } else if (event.type === "text-delta") {
         // Add newline before first text output in each iteration
         if (!hasOutputText) {
-          yield '\n';
+          yield "\n";
           hasOutputText = true;
         }
         // Text to be displayed to the user
-        yield chunk.delta;
-      } else if (chunk.type === "response.output_item.done" && chunk.item.type === "function_call") {
+        assistantText += event.delta;
+        yield event.delta;
+      } else if (event.type === "function-call") {
         // We have to do a function call
-        writeToConsoleInLightGray(`>>> Calling function ${chunk.item.name}(${JSON.stringify(chunk.item.arguments)})...`);
+        const call = event.call;
+        writeToConsoleInLightGray(`>>> Calling function ${call.name}(${JSON.stringify(call.arguments)})...`);
         requiresFurtherActions = true;
-        const result = await handleFunctionCall(chunk.item, board);
+        const isMcpTool = mcpToolbox?.hasTool(call.name) ?? false;
+        const start = performance.now();
+        const result =
+          mcpToolbox && isMcpTool
+            ? { functionResult: await mcpToolbox.callTool(call), displayOutput: null }
+            : await handleFunctionCall(call, session, turnGuard, usage);
+        await trace?.record({
+          type: "function-call",
+          turn,
+          source: isMcpTool ? "mcp" : "local",
+          name: call.name,
+          callId: call.call_id,
+          arguments: call.arguments,
+          output: String(result.functionResult.output),
+          durationMs: Math.round(performance.now() - start),
+          position: exportPosition(session.board),
+        });
         if (result.displayOutput) {
           yield* result.displayOutput;
         }
         writeToConsoleInLightGray(`>>> Function call completed ${JSON.stringify(result.functionResult)}`);
         input.push(result.functionResult);
-      } else if (chunk.type === "response.completed") {
-        writeToConsoleInLightGray(`>>> Response completed ${JSON.stringify(chunk.response.usage)}`);
+      } else if (event.type === "response-completed") {
+        if (event.usage) {
+          usage.add(event.usage);
+        }
+        writeToConsoleInLightGray(`>>> Response completed ${JSON.stringify(event.usage)}`);
       }
     }
+
+    if (assistantText) {
+      addToTranscript(session, "assistant", assistantText);
+    }
   } while (requiresFurtherActions);
 }
 
 function writeToConsoleInLightGray(text: string): void {
   process.stdout.write(`\n\x1b[90m${text}\x1b[0m`);
-}
\ No newline at end of file
+}
@@ -4,15 +4,17 @@ import readline from 'readline';
  * Prompts the user for input with the given prompt text and returns the entered value.
  * 
  * @param {string} prompt - The text to display to the user as a prompt
+ * @param {readline.Completer} [completer] - Optional tab completion for the input
  * @returns {Promise<string>} A promise that resolves with the user's input
  * @example
  * const name = await readLine('Enter your name: ');
  */
-export function readLine(prompt: string): Promise<string> {
+export function readLine(prompt: string, completer?: readline.Completer): Promise<string> {
   return new Promise((resolve) => {
     const rl = readline.createInterface({
       input: process.stdin,
       output: process.stdout,
+      ...(completer && { completer }),
     });
 
     rl.question(prompt, (answer) => {
@@ -0,0 +1,59 @@
+import type { FunctionTool, ResponseCustomToolCallOutput } from "openai/resources/responses/responses.mjs";
+
+export type FunctionCall = {
+  name: string;
+  call_id: string;
+  /**
+   * Arguments as JSON string.
+   */
+  arguments: string;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  /**
+   * Part of the output tokens spent on reasoning.
+   */
+  reasoningTokens: number;
+};
+
+/**
+ * Input for the next response: the user's message, or the outputs of the function calls
+ * the model requested in the previous response.
+ */
+export type ProviderInput = { role: "user"; content: string } | ResponseCustomToolCallOutput;
+
+export type ProviderRequest = {
+  instructions: string;
+  input: ProviderInput[];
+  /**
+   * Id of the previous response; the provider continues that conversation.
+   */
+  previousResponseId: string | null;
+  tools: FunctionTool[];
+};
+
+/**
+ * Events of a streamed response in the order in which they occur.
+ */
+export type ProviderEvent =
+  | { type: "response-created"; responseId: string }
+  | { type: "text-delta"; delta: string }
+  | { type: "function-call"; call: FunctionCall }
+  | { type: "response-completed"; usage: TokenUsage | null };
+
+/**
+ * A language model that streams text and requests function calls. The bot executes the function calls
+ * and sends their outputs in the next request until a response contains no more function calls.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  createResponse(request: ProviderRequest): AsyncIterable<ProviderEvent>;
+}
+
+export const PROVIDER_NAMES = ["openai", "scripted"] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export const REASONING_EFFORTS = ["none", "minimal", "low", "medium", "high", "xhigh"] as const;
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
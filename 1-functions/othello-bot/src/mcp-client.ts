@@ -0,0 +1,174 @@
+import fs from "fs";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { FunctionTool, ResponseCustomToolCallOutput } from "openai/resources/responses/responses.mjs";
+import { z } from "zod";
+
+/**
+ * Configuration of the MCP servers in the format of VS Code's .vscode/mcp.json.
+ */
+export const McpConfigSchema = z.object({
+  servers: z.record(
+    z.string(),
+    z.discriminatedUnion("type", [
+      z.object({
+        type: z.literal("stdio"),
+        command: z.string(),
+        args: z.array(z.string()).optional(),
+        env: z.record(z.string(), z.string()).optional(),
+        cwd: z.string().optional(),
+      }),
+      z.object({
+        type: z.literal("http"),
+        url: z.url(),
+        headers: z.record(z.string(), z.string()).optional(),
+      }),
+    ]),
+  ),
+});
+export type McpConfig = z.infer<typeof McpConfigSchema>;
+export type McpServerConfig = McpConfig["servers"][string];
+
+/**
+ * Reads and validates an mcp.json file. Returns null if the file does not exist.
+ */
+export async function loadMcpConfig(path: string): Promise<McpConfig | null> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path, { encoding: "utf-8" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  return McpConfigSchema.parse(JSON.parse(content));
+}
+
+type McpTool = {
+  client: Client;
+  /**
+   * Name of the tool on the MCP server. The name presented to the model is prefixed with the server name.
+   */
+  toolName: string;
+  functionTool: FunctionTool;
+};
+
+/**
+ * Connections to the MCP servers of an mcp.json file. Offers the tools of all servers as OpenAI
+ * function tools and routes the model's function calls back to the server that provides the tool.
+ */
+export class McpToolbox {
+  private readonly clients: Client[] = [];
+  private readonly tools = new Map<string, McpTool>();
+
+  private constructor() {}
+
+  /**
+   * Connects to all servers of the configuration and lists their tools. Servers that cannot be reached
+   * are reported via onError and skipped, so that the bot can still be used with its local tools.
+   */
+  public static async connect(config: McpConfig, onError: (message: string) => void): Promise<McpToolbox> {
+    const toolbox = new McpToolbox();
+
+    for (const [serverName, serverConfig] of Object.entries(config.servers)) {
+      const client = new Client({ name: "othello-bot", version: "1.0.0" });
+      try {
+        await client.connect(McpToolbox.createTransport(serverConfig));
+        toolbox.clients.push(client);
+
+        const { tools } = await client.listTools();
+        for (const tool of tools) {
+          const name = McpToolbox.getFunctionName(serverName, tool.name);
+          toolbox.tools.set(name, {
+            client,
+            toolName: tool.name,
+            functionTool: {
+              type: "function",
+              name,
+              description: `${tool.description ?? tool.title ?? tool.name} (tool of MCP server "${serverName}")`,
+              parameters: tool.inputSchema,
+              // MCP input schemas do not necessarily follow the rules of OpenAI's strict mode
+              strict: false,
+            },
+          });
+        }
+      } catch (error) {
+        onError(`Could not connect to MCP server "${serverName}": ${error}`);
+        await client.close();
+      }
+    }
+
+    return toolbox;
+  }
+
+  private static createTransport(config: McpServerConfig): Transport {
+    if (config.type === "stdio") {
+      return new StdioClientTransport({
+        command: config.command,
+        args: config.args ?? [],
+        // Servers need PATH etc. to start, the configured variables are added to the current environment
+        env: { ...(process.env as Record<string, string>), ...config.env },
+        ...(config.cwd !== undefined && { cwd: config.cwd }),
+      });
+    }
+
+    const transport = new StreamableHTTPClientTransport(new URL(config.url), {
+      requestInit: { headers: config.headers ?? {} },
+    });
+    // The SDK's transport types do not support exactOptionalPropertyTypes
+    return transport as Transport;
+  }
+
+  /**
+   * OpenAI function names may only contain letters, digits, underscores and dashes (max. 64 characters).
+   */
+  private static getFunctionName(serverName: string, toolName: string): string {
+    return `${serverName}__${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+  }
+
+  /**
+   * Function tools of all connected servers, to be passed to the Responses API next to the local tools.
+   */
+  public getFunctionTools(): FunctionTool[] {
+    return [...this.tools.values()].map((tool) => tool.functionTool);
+  }
+
+  public hasTool(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Calls the MCP tool behind the function call and converts its result into a function call output.
+   * The text content of the result is passed to the model, or the structured content if there is no text.
+   */
+  public async callTool(item: { name: string; call_id: string; arguments: string }): Promise<ResponseCustomToolCallOutput> {
+    const tool = this.tools.get(item.name);
+    let output: string;
+
+    if (!tool) {
+      output = `ERROR: Unknown function call: ${item.name}`;
+    } else {
+      try {
+        const result = await tool.client.callTool({ name: tool.toolName, arguments: JSON.parse(item.arguments) });
+        const content = Array.isArray(result.content) ? result.content : [];
+        const text = content.map((part) => (part.type === "text" ? part.text : `[${part.type} content]`)).join("\n");
+        output = text || JSON.stringify(result.structuredContent ?? null);
+        if (result.isError) {
+          output = `ERROR: ${output}`;
+        }
+      } catch (error) {
+        output = `ERROR: ${error}`;
+      }
+    }
+
+    return { type: "custom_tool_call_output", call_id: item.call_id, output };
+  }
+
+  public async close(): Promise<void> {
+    await Promise.all(this.clients.map((client) => client.close()));
+  }
+}
@@ -0,0 +1,54 @@
+import OpenAI from "openai";
+import type { LlmProvider, ProviderEvent, ProviderRequest, ReasoningEffort } from "./llm-provider.js";
+
+/**
+ * Provider for the OpenAI Responses API. Conversations are stored on the server (store: true)
+ * and continued via previous_response_id.
+ */
+export class OpenAIProvider implements LlmProvider {
+  public readonly name = "openai";
+
+  constructor(
+    private readonly client: OpenAI,
+    private readonly model: string,
+    private readonly reasoningEffort: ReasoningEffort,
+  ) {}
+
+  public async *createResponse(request: ProviderRequest): AsyncGenerator<ProviderEvent> {
+    const response = await this.client.responses.create({
+      model: this.model,
+      reasoning: {
+        effort: this.reasoningEffort,
+      },
+      instructions: request.instructions,
+      input: request.input,
+      store: true,
+      previous_response_id: request.previousResponseId,
+      stream: true,
+      tools: request.tools,
+    });
+
+    for await (const chunk of response) {
+      if (chunk.type === "response.created") {
+        yield { type: "response-created", responseId: chunk.response.id };
+      } else if (chunk.type === "response.output_text.delta") {
+        yield { type: "text-delta", delta: chunk.delta };
+      } else if (chunk.type === "response.output_item.done" && chunk.item.type === "function_call") {
+        const { name, call_id, arguments: args } = chunk.item;
+        yield { type: "function-call", call: { name, call_id, arguments: args } };
+      } else if (chunk.type === "response.completed") {
+        const usage = chunk.response.usage;
+        yield {
+          type: "response-completed",
+          usage: usage
+            ? {
+                inputTokens: usage.input_tokens,
+                outputTokens: usage.output_tokens,
+                reasoningTokens: usage.output_tokens_details.reasoning_tokens,
+              }
+            : null,
+        };
+      }
+    }
+  }
+}
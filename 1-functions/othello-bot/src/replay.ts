@@ -0,0 +1,121 @@
+import { exportPosition, importTranscript, isInvalidBoardResult } from "othello-game";
+import { SLASH_COMMANDS, type CommandContext } from "./commands.js";
+import { getEngineSuggestionTool, handleFunctionCall } from "./functions.js";
+import { createSession } from "./session.js";
+import { loadTrace, type TraceEntry } from "./trace.js";
+import { TurnGuard } from "./turn-guard.js";
+import { UsageTracker } from "./usage-tracker.js";
+
+// Replays a trace written with `--trace <file>` against the game it started with and reports where the
+// outputs of the function calls or the resulting positions differ from the recorded ones, and commands
+// that failed (e.g. /load of a file that is missing).
+// Usage: node dist/replay.js <trace.jsonl>
+
+/**
+ * Commands that change the board or the turn order; all other commands are not replayed.
+ */
+const REPLAYED_COMMANDS = ["/undo", "/reset", "/load"];
+
+/**
+ * Local tools whose output is not reproducible: the engine breaks ties at random and stops after a time limit.
+ * They do not change the board.
+ */
+const SKIPPED_TOOLS = [getEngineSuggestionTool.name];
+
+type Divergence = {
+  entry: Extract<TraceEntry, { type: "function-call" | "command" }>;
+  output: string;
+  position: string;
+};
+
+type ReplayReport = {
+  replayed: number;
+  /**
+   * Calls of MCP tools, they depend on external servers, and of the SKIPPED_TOOLS.
+   */
+  skipped: number;
+  divergences: Divergence[];
+};
+
+async function replayTrace(entries: TraceEntry[]): Promise<ReplayReport> {
+  const context: CommandContext = {
+    session: createSession(),
+    sessionFile: "",
+    usage: new UsageTracker(null),
+    turnGuard: new TurnGuard("B"),
+    pendingNotes: [],
+    log: () => {},
+    quit: async () => {
+      throw new Error("/quit cannot be replayed");
+    },
+  };
+  const { turnGuard } = context;
+  const report: ReplayReport = { replayed: 0, skipped: 0, divergences: [] };
+
+  for (const entry of entries) {
+    if (entry.type === "start") {
+      const game = importTranscript(entry.game);
+      if (isInvalidBoardResult(game)) {
+        throw new Error(`Invalid start game in the trace: ${game.error}`);
+      }
+      context.session.board = game.board;
+    } else if (entry.type === "user-message") {
+      turnGuard.onUserMessage(context.session.board);
+    } else if (entry.type === "command") {
+      const [name = "", ...args] = entry.line.trim().split(/\s+/);
+      const command = SLASH_COMMANDS.find((command) => command.name === name.toLowerCase());
+      if (!command || !REPLAYED_COMMANDS.includes(command.name)) {
+        continue;
+      }
+      try {
+        await command.run(args, context);
+      } catch (error) {
+        const position = exportPosition(context.session.board);
+        report.divergences.push({ entry, output: `${name} failed: ${error}`, position });
+      }
+    } else if (entry.source === "mcp" || SKIPPED_TOOLS.includes(entry.name)) {
+      report.skipped++;
+    } else {
+      const { functionResult } = await handleFunctionCall(
+        { name: entry.name, call_id: entry.callId, arguments: entry.arguments },
+        context.session,
+        turnGuard,
+        context.usage,
+      );
+      const position = exportPosition(context.session.board);
+      report.replayed++;
+      if (functionResult.output !== entry.output || position !== entry.position) {
+        report.divergences.push({ entry, output: String(functionResult.output), position });
+      }
+    }
+  }
+
+  return report;
+}
+
+const tracePath = process.argv[2];
+if (!tracePath) {
+  console.error("Usage: node dist/replay.js <trace.jsonl>");
+  process.exit(1);
+}
+
+const report = await replayTrace(await loadTrace(tracePath));
+for (const { entry, output, position } of report.divergences) {
+  if (entry.type === "command") {
+    console.log(`✗ Turn ${entry.turn}: ${output}`);
+    continue;
+  }
+  console.log(`✗ Turn ${entry.turn}: ${entry.name}(${entry.arguments})`);
+  if (output !== entry.output) {
+    console.log(`    recorded output: ${entry.output}`);
+    console.log(`    replayed output: ${output}`);
+  }
+  if (position !== entry.position) {
+    console.log(`    recorded position: ${entry.position}`);
+    console.log(`    replayed position: ${position}`);
+  }
+}
+console.log(
+  `${report.replayed} function calls replayed, ${report.skipped} MCP and engine calls skipped, ${report.divergences.length} divergences.`,
+);
+process.exit(report.divergences.length > 0 ? 1 : 0);
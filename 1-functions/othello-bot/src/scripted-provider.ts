@@ -0,0 +1,75 @@
+import fs from "fs";
+import { z } from "zod";
+import type { LlmProvider, ProviderEvent, ProviderRequest } from "./llm-provider.js";
+
+export const ScriptSchema = z.object({
+  responses: z.array(
+    z.object({
+      text: z.string().optional(),
+      functionCalls: z
+        .array(
+          z.object({
+            name: z.string(),
+            arguments: z.record(z.string(), z.unknown()).default({}),
+          }),
+        )
+        .default([]),
+      usage: z
+        .object({
+          inputTokens: z.number().int().min(0),
+          outputTokens: z.number().int().min(0),
+          reasoningTokens: z.number().int().min(0).default(0),
+        })
+        .optional(),
+    }),
+  ),
+});
+export type Script = z.infer<typeof ScriptSchema>;
+
+/**
+ * Reads and validates a script file for the ScriptedProvider.
+ */
+export async function loadScript(path: string): Promise<Script> {
+  const content = await fs.promises.readFile(path, { encoding: "utf-8" });
+  return ScriptSchema.parse(JSON.parse(content));
+}
+
+/**
+ * Offline provider that replays a script instead of calling a language model. Every request returns
+ * the next response of the script (text and/or function calls), regardless of the input, so runs are
+ * deterministic. Useful for demos and for testing the bot without network access.
+ */
+export class ScriptedProvider implements LlmProvider {
+  public readonly name = "scripted";
+  private nextResponse = 0;
+  private nextCallId = 1;
+
+  constructor(private readonly script: Script) {}
+
+  public async *createResponse(_request: ProviderRequest): AsyncGenerator<ProviderEvent> {
+    const index = this.nextResponse;
+    const response = this.script.responses[index];
+    this.nextResponse += 1;
+
+    yield { type: "response-created", responseId: `scripted-${index + 1}` };
+
+    const text = response ? response.text : "(The script has ended, there are no more responses.)";
+    // Stream word by word like a real model
+    for (const delta of text?.match(/\S+\s*|\s+/g) ?? []) {
+      yield { type: "text-delta", delta };
+    }
+
+    for (const functionCall of response?.functionCalls ?? []) {
+      yield {
+        type: "function-call",
+        call: {
+          name: functionCall.name,
+          call_id: `scripted-call-${this.nextCallId++}`,
+          arguments: JSON.stringify(functionCall.arguments),
+        },
+      };
+    }
+
+    yield { type: "response-completed", usage: response?.usage ?? { inputTokens: 0, outputTokens: 0, reasoningTokens: 0 } };
+  }
+}
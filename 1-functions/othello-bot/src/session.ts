@@ -0,0 +1,116 @@
+import fs from "fs";
+import {
+  OthelloBoard,
+  exportPosition,
+  exportTranscript,
+  importTranscript,
+  isInvalidBoardResult,
+  type TranscriptHeaders,
+} from "othello-game";
+import { z } from "zod";
+
+export type TranscriptEntry = {
+  role: "user" | "assistant";
+  text: string;
+  /**
+   * ISO 8601 timestamp.
+   */
+  timestamp: string;
+};
+
+/**
+ * Everything the bot needs to continue a game and its conversation.
+ */
+export type BotSession = {
+  board: OthelloBoard;
+  /**
+   * Name of the human player once the model has learned it, null before.
+   */
+  playerName: string | null;
+  /**
+   * Id of the last response of the language model. The conversation is continued from there.
+   */
+  previousResponseId: string | null;
+  /**
+   * Local copy of the conversation, independent of what the provider stores.
+   */
+  transcript: TranscriptEntry[];
+};
+
+export const DEFAULT_SESSION_FILE = "othello-session.json";
+
+const SessionFileSchema = z.object({
+  version: z.literal(1),
+  savedAt: z.string(),
+  playerName: z.string().nullable(),
+  previousResponseId: z.string().nullable(),
+  /**
+   * Game transcript (start position and all moves) so that the history survives, e.g. for undo.
+   */
+  game: z.string(),
+  /**
+   * Redundant, readable copy of the current position including the side to move; checked when loading.
+   */
+  position: z.string(),
+  transcript: z.array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      text: z.string(),
+      timestamp: z.string(),
+    }),
+  ),
+});
+
+export function createSession(): BotSession {
+  return { board: OthelloBoard.createEmpty(), playerName: null, previousResponseId: null, transcript: [] };
+}
+
+export function addToTranscript(session: BotSession, role: TranscriptEntry["role"], text: string): void {
+  session.transcript.push({ role, text, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Headers for exportTranscript; the human plays Black, the bot White.
+ */
+export function getTranscriptHeaders(session: BotSession): TranscriptHeaders {
+  return session.playerName ? { Black: session.playerName, White: "othello-bot" } : {};
+}
+
+/**
+ * Writes the session to a JSON file.
+ */
+export async function saveSession(path: string, session: BotSession): Promise<void> {
+  const content: z.infer<typeof SessionFileSchema> = {
+    version: 1,
+    savedAt: new Date().toISOString(),
+    playerName: session.playerName,
+    previousResponseId: session.previousResponseId,
+    game: exportTranscript(session.board, getTranscriptHeaders(session)),
+    position: exportPosition(session.board),
+    transcript: session.transcript,
+  };
+
+  await fs.promises.writeFile(path, JSON.stringify(content, null, 2) + "\n", { encoding: "utf-8" });
+}
+
+/**
+ * Reads a session written by saveSession. Throws if the file cannot be read or is invalid.
+ */
+export async function loadSession(path: string): Promise<BotSession> {
+  const content = SessionFileSchema.parse(JSON.parse(await fs.promises.readFile(path, { encoding: "utf-8" })));
+
+  const game = importTranscript(content.game);
+  if (isInvalidBoardResult(game)) {
+    throw new Error(`Invalid game in session file ${path}: ${game.error}`);
+  }
+  if (exportPosition(game.board) !== content.position) {
+    throw new Error(`Invalid session file ${path}: the moves do not lead to the saved position.`);
+  }
+
+  return {
+    board: game.board,
+    playerName: content.playerName,
+    previousResponseId: content.previousResponseId,
+    transcript: content.transcript,
+  };
+}
@@ -0,0 +1,95 @@
+import fs from "fs";
+import { z } from "zod";
+
+/**
+ * One line of a trace file. Next to the function calls, the trace contains the game the bot started
+ * with (e.g. a session continued with --resume), the user messages (the turn order depends on them)
+ * and the slash commands (they can change the board).
+ */
+export const TraceEntrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("start"),
+    timestamp: z.string(),
+    /**
+     * Transcript of the game (exportTranscript) including its history, so that /undo can be replayed.
+     */
+    game: z.string(),
+  }),
+  z.object({
+    type: z.literal("user-message"),
+    timestamp: z.string(),
+    turn: z.number().int(),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal("command"),
+    timestamp: z.string(),
+    turn: z.number().int(),
+    line: z.string(),
+  }),
+  z.object({
+    type: z.literal("function-call"),
+    timestamp: z.string(),
+    turn: z.number().int(),
+    /**
+     * "mcp" for tools of MCP servers; they are not replayed.
+     */
+    source: z.enum(["local", "mcp"]),
+    name: z.string(),
+    callId: z.string(),
+    /**
+     * Arguments as JSON string, exactly as sent by the model.
+     */
+    arguments: z.string(),
+    output: z.string(),
+    durationMs: z.number(),
+    /**
+     * Position after the call (exportPosition), so that a replay also detects changes of the board
+     * that are not visible in the output.
+     */
+    position: z.string(),
+  }),
+]);
+export type TraceEntry = z.infer<typeof TraceEntrySchema>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Writes a trace as JSONL file, one entry per line. Every entry is appended immediately,
+ * so the trace is complete even if the bot crashes.
+ */
+export class TraceRecorder {
+  private constructor(private readonly path: string) {}
+
+  /**
+   * Creates the trace file, overwriting an existing one.
+   */
+  public static async create(path: string): Promise<TraceRecorder> {
+    await fs.promises.writeFile(path, "", { encoding: "utf-8" });
+    return new TraceRecorder(path);
+  }
+
+  public async record(entry: DistributiveOmit<TraceEntry, "timestamp">): Promise<void> {
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry });
+    await fs.promises.appendFile(this.path, line + "\n", { encoding: "utf-8" });
+  }
+}
+
+/**
+ * Reads a trace file written by TraceRecorder. Throws if a line is not a valid entry.
+ */
+export async function loadTrace(path: string): Promise<TraceEntry[]> {
+  const content = await fs.promises.readFile(path, { encoding: "utf-8" });
+  const entries: TraceEntry[] = [];
+  for (const [index, line] of content.split("\n").entries()) {
+    if (line.trim() === "") {
+      continue;
+    }
+    const result = TraceEntrySchema.safeParse(JSON.parse(line));
+    if (!result.success) {
+      throw new Error(`Invalid trace entry in line ${index + 1}: ${result.error.message}`);
+    }
+    entries.push(result.data);
+  }
+  return entries;
+}
@@ -0,0 +1,102 @@
+import type { GameStatus, InvalidBoardResult, InvalidMoveReason, OthelloBoard, Player } from "othello-game";
+
+export type TurnGuardReason = InvalidMoveReason | "awaiting-user";
+
+/**
+ * A move the guard did not let through, in the same format as the engine's InvalidMoveResult.
+ */
+export type TurnGuardRejection = InvalidBoardResult & {
+  reason: TurnGuardReason;
+};
+
+/**
+ * Turn changes the host made on its own after a move: passes of players without valid moves
+ * and the end of the game.
+ */
+export type TurnUpdate = {
+  autoPassed: Player[];
+  status: GameStatus;
+};
+
+/**
+ * Enforces the turn order between the human and the model, independent of what the system prompt says.
+ * The model applies the human's moves as well as its own with the same tool. The guard only lets it
+ * apply one move for the human per user message, so that it can neither move twice nor play the human's
+ * turn on its own. Passes are made automatically, so neither side has to ask for them.
+ */
+export class TurnGuard {
+  private humanMoveAllowed = false;
+
+  constructor(public readonly humanPlayer: Player = "B") {}
+
+  /**
+   * Called for every message of the user: the message may contain the human's next move.
+   */
+  public onUserMessage(board: OthelloBoard): TurnUpdate {
+    this.humanMoveAllowed = true;
+    return this.autoPass(board);
+  }
+
+  /**
+   * Forgets the turn state of the previous game, e.g. after /reset, /load or the resetBoard tool replaced
+   * the board. The human may move again after their next message.
+   */
+  public reset(): void {
+    this.humanMoveAllowed = false;
+  }
+
+  /**
+   * Checks whether the model may apply a move for the player to move. Returns null if it may.
+   * The engine checks the move itself afterwards.
+   */
+  public checkMove(board: OthelloBoard): TurnGuardRejection | null {
+    if (board.isGameOver()) {
+      return { reason: "game-over", error: "The game is already over." };
+    }
+    if (board.getCurrentPlayer() === this.humanPlayer && !this.humanMoveAllowed) {
+      return {
+        reason: "awaiting-user",
+        error: `It is the user's turn (${TurnGuard.playerName(this.humanPlayer)}). Ask the user for their move and wait for the answer.`,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Called after a move was applied. Uses up the human's move (a user message that arrived during the
+   * model's turn must not count for the human's next turn) and passes for players without valid moves.
+   */
+  public onMoveApplied(board: OthelloBoard): TurnUpdate {
+    this.humanMoveAllowed = false;
+    return this.autoPass(board);
+  }
+
+  private autoPass(board: OthelloBoard): TurnUpdate {
+    const autoPassed: Player[] = [];
+    while (!board.isGameOver()) {
+      const player = board.getCurrentPlayer();
+      if (!board.pass()) {
+        break;
+      }
+      autoPassed.push(player);
+    }
+    return { autoPassed, status: board.getGameStatus() };
+  }
+
+  /**
+   * Describes a turn update for the console, e.g. "White (○) has no valid moves and passes."
+   */
+  public static describe(update: TurnUpdate): string[] {
+    const lines = update.autoPassed.map((player) => `${TurnGuard.playerName(player)} has no valid moves and passes.`);
+    const { isGameOver, winner, statistics } = update.status;
+    if (isGameOver) {
+      const result = winner === "draw" ? "It's a draw" : `${TurnGuard.playerName(winner!)} wins`;
+      lines.push(`Game over: ${result} (Black ${statistics.black} : ${statistics.white} White).`);
+    }
+    return lines;
+  }
+
+  private static playerName(player: Player): string {
+    return player === "B" ? "Black (●)" : "White (○)";
+  }
+}
@@ -0,0 +1,139 @@
+import fs from "fs";
+import { z } from "zod";
+import type { TokenUsage } from "./llm-provider.js";
+
+/**
+ * Prices per model in USD per million tokens. Reasoning tokens are billed as output tokens.
+ */
+export const PriceTableSchema = z.object({
+  models: z.record(
+    z.string(),
+    z.object({
+      input: z.number().min(0),
+      output: z.number().min(0),
+    }),
+  ),
+});
+export type PriceTable = z.infer<typeof PriceTableSchema>;
+export type ModelPrice = PriceTable["models"][string];
+
+/**
+ * Reads and validates a price table. Returns null if the file does not exist.
+ */
+export async function loadPriceTable(path: string): Promise<PriceTable | null> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path, { encoding: "utf-8" });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  return PriceTableSchema.parse(JSON.parse(content));
+}
+
+/**
+ * - "turn": all responses for the last user message (including the function call round trips)
+ * - "game": since the current game started (start of the bot, a new game after the game was over, /reset, /load)
+ * - "session": since the bot was started
+ */
+export type UsageScope = "turn" | "game" | "session";
+
+const USAGE_SCOPES: readonly UsageScope[] = ["turn", "game", "session"];
+
+/**
+ * Aggregates the tokens used by the language model and calculates the costs if the price of the
+ * model is known. Optionally limits the costs of a game.
+ */
+export class UsageTracker {
+  private readonly totals: Record<UsageScope, TokenUsage> = {
+    turn: UsageTracker.emptyUsage(),
+    game: UsageTracker.emptyUsage(),
+    session: UsageTracker.emptyUsage(),
+  };
+
+  /**
+   * @param price Price of the model, null if unknown (only tokens are counted then)
+   * @param gameBudget Maximum costs of a game in USD, null for no limit. Requires a price.
+   */
+  constructor(
+    private readonly price: ModelPrice | null,
+    private readonly gameBudget: number | null = null,
+  ) {
+    if (gameBudget !== null && price === null) {
+      throw new Error("A game budget requires a price for the model.");
+    }
+  }
+
+  private static emptyUsage(): TokenUsage {
+    return { inputTokens: 0, outputTokens: 0, reasoningTokens: 0 };
+  }
+
+  public startTurn(): void {
+    this.totals.turn = UsageTracker.emptyUsage();
+  }
+
+  public startGame(): void {
+    this.totals.game = UsageTracker.emptyUsage();
+  }
+
+  /**
+   * Adds the usage of a response to all scopes.
+   */
+  public add(usage: TokenUsage): void {
+    for (const scope of USAGE_SCOPES) {
+      this.totals[scope].inputTokens += usage.inputTokens;
+      this.totals[scope].outputTokens += usage.outputTokens;
+      this.totals[scope].reasoningTokens += usage.reasoningTokens;
+    }
+  }
+
+  public getUsage(scope: UsageScope): TokenUsage {
+    return { ...this.totals[scope] };
+  }
+
+  /**
+   * Costs in USD, null if the price of the model is unknown.
+   */
+  public getCost(scope: UsageScope): number | null {
+    if (!this.price) {
+      return null;
+    }
+    const { inputTokens, outputTokens } = this.totals[scope];
+    return (inputTokens * this.price.input + outputTokens * this.price.output) / 1_000_000;
+  }
+
+  public isGameBudgetExceeded(): boolean {
+    return this.gameBudget !== null && (this.getCost("game") ?? 0) > this.gameBudget;
+  }
+
+  public getGameBudget(): number | null {
+    return this.gameBudget;
+  }
+
+  /**
+   * E.g. "1234 input, 567 output (120 reasoning) tokens, $0.0102".
+   */
+  public format(scope: UsageScope): string {
+    const { inputTokens, outputTokens, reasoningTokens } = this.totals[scope];
+    const cost = this.getCost(scope);
+    return (
+      `${inputTokens} input, ${outputTokens} output (${reasoningTokens} reasoning) tokens` +
+      (cost === null ? "" : `, $${cost.toFixed(4)}`)
+    );
+  }
+
+  public getSummary(): string {
+    const lines = [
+      `Last turn: ${this.format("turn")}`,
+      `This game: ${this.format("game")}` + (this.gameBudget === null ? "" : ` (budget $${this.gameBudget.toFixed(2)})`),
+      `Session:   ${this.format("session")}`,
+    ];
+    if (!this.price) {
+      lines.push("Costs are not shown because the price of the model is not in the price table.");
+    }
+    return lines.join("\n");
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard } from "othello-game";
+import { formatAnalysis } from "./analysis.js";
+
+function stripColors(text: string): string {
+  return text.replace(/\x1b\[\d+m/g, "");
+}
+
+describe("heat map", () => {
+  test("shows the ranks of several moves in one row", () => {
+    // After D3, White can play C3 and E3 in row 3
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("D3");
+    const lines = formatAnalysis(board, 2).split("\n");
+
+    expect(lines.map(stripColors)).toContain("3 │    1 ● 2      │");
+    expect(lines.map(stripColors)).toContain("5 │    3 ● ○      │");
+    const row = lines.find((line) => line.startsWith("3 "))!;
+    expect(row.replace(/(\x1b\[\d+m)+\d\x1b\[0m/g, "")).not.toContain("\x1b");
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  MinimaxStrategy,
+  OthelloBoard,
+  analyzePosition,
+  solveEndgame,
+  type EngineMove,
+  type GameStatistics,
+} from "othello-game";
+
+const RESET = "\x1b[0m";
+const BOLD = "\x1b[1m";
+const GREEN = "\x1b[32m";
+const YELLOW = "\x1b[33m";
+const RED = "\x1b[31m";
+
+/**
+ * The engine's suggestion for the player to move, e.g. "💡 Hint for Black (●): D3 (score +12)".
+ */
+export function formatHint(board: OthelloBoard, depth: number): string {
+  // Same ranking as the analysis, so that the hint is always its first move
+  const move = new MinimaxStrategy(depth).rankMoves(board)[0];
+  const player = getPlayerName(board);
+  return move
+    ? `💡 Hint for ${player}: ${OthelloBoard.formatPosition(move.position)} (score ${formatScore(move.score)})`
+    : `💡 ${player} has no valid moves.`;
+}
+
+/**
+ * Ranked moves as heat map on the board, the list of moves with their scores, the exact result
+ * near the end of the game and a comparison of mobility, corners, edges and stable discs.
+ */
+export function formatAnalysis(board: OthelloBoard, depth: number): string {
+  const analysis = analyzePosition(board, depth);
+  const lines = [
+    `🔍 Analysis for ${getPlayerName(board)} (search depth ${depth})`,
+    "",
+    ...formatHeatMap(board, analysis.rankedMoves),
+  ];
+
+  if (analysis.rankedMoves.length > 0) {
+    lines.push("  Numbers = rank of the move, green = good, yellow = fair, red = bad", "", "Ranked moves:");
+    for (const [index, move] of analysis.rankedMoves.entries()) {
+      const position = OthelloBoard.formatPosition(move.position).padEnd(4);
+      lines.push(`  ${String(index + 1).padStart(2)}. ${position}${formatScore(move.score).padStart(7)}`);
+    }
+  } else {
+    lines.push("", `${getPlayerName(board)} has no valid moves.`);
+  }
+
+  const endgame = board.isGameOver() ? null : solveEndgame(board);
+  if (endgame) {
+    const move = endgame.position ? `${OthelloBoard.formatPosition(endgame.position)}, ` : "";
+    const margin = Math.abs(endgame.discDifference);
+    const result =
+      endgame.discDifference === 0
+        ? "draw"
+        : `${endgame.discDifference > 0 ? getPlayerName(board) : getOpponentName(board)} wins by ${margin} disc${margin === 1 ? "" : "s"}`;
+    lines.push("", `🎯 Perfect play (${endgame.emptyFields} empty fields): ${move}${result}`);
+  }
+
+  const row = (label: string, counts: GameStatistics) =>
+    `${label.padEnd(14)}${String(counts.black).padStart(7)}${String(counts.white).padStart(7)}`;
+  lines.push(
+    "",
+    `${"".padEnd(14)}  Black  White`,
+    row("Mobility", analysis.mobility),
+    row("Corners", analysis.corners),
+    row("Edges", analysis.edges),
+    row("Stable discs", analysis.stable),
+  );
+  return lines.join("\n");
+}
+
+/**
+ * The formatted board with the rank of each valid move in its field, colored by the move's score
+ * relative to the best and the worst move.
+ */
+function formatHeatMap(board: OthelloBoard, rankedMoves: EngineMove[]): string[] {
+  const lines = board.toFormattedString().split("\n");
+  const scores = rankedMoves.map((move) => move.score);
+  const best = Math.max(...scores);
+  const worst = Math.min(...scores);
+  // Rows of toFormattedString look like " 1 │● ○ ...│": label, space, border, then one field every 2 characters
+  const labelWidth = String(board.getSize()).length;
+
+  // Fields are colored from right to left, so that the offsets measured on the uncolored line stay valid
+  const fields = [...rankedMoves.entries()].sort(([, a], [, b]) => b.position.col - a.position.col);
+  for (const [index, move] of fields) {
+    const quality = best === worst ? 1 : (move.score - worst) / (best - worst);
+    const color = index === 0 ? BOLD + GREEN : quality >= 2 / 3 ? GREEN : quality >= 1 / 3 ? YELLOW : RED;
+    const label = index < 9 ? String(index + 1) : "+";
+
+    const lineIndex = move.position.row + 2;
+    const offset = labelWidth + 2 + 2 * move.position.col;
+    const line = lines[lineIndex] ?? "";
+    lines[lineIndex] = `${line.slice(0, offset)}${color}${label}${RESET}${line.slice(offset + 1)}`;
+  }
+
+  return lines;
+}
+
+function formatScore(score: number): string {
+  return score > 0 ? `+${score}` : String(score);
+}
+
+function getPlayerName(board: OthelloBoard): string {
+  return board.getCurrentPlayer() === "B" ? "Black (●)" : "White (○)";
+}
+
+function getOpponentName(board: OthelloBoard): string {
+  return board.getCurrentPlayer() === "B" ? "White (○)" : "Black (●)";
+}
@@ -1,29 +1,282 @@
-import { OthelloBoard, isInvalidBoardResult, type Move } from "othello-game";
+import fs from "fs";
+import {
+  GameClock,
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  OthelloBoard,
+  createSeededRandom,
+  createStandardOpeningBook,
+  exportPosition,
+  exportTranscript,
+  formatClockTime,
+  formatTimeControl,
+  isInvalidBoardResult,
+  isInvalidMoveResult,
+  isValidBoardSize,
+  parseOpeningBook,
+  parseTimeControl,
+  type BoardOptions,
+  type Move,
+  type OpeningBook,
+  type Player,
+  type TimeControl,
+} from "othello-game";
 import * as readline from "readline";
+import { parseArgs } from "util";
+import { formatAnalysis, formatHint } from "./analysis.js";
+import { PLAYER_CHOICES, chooseComputerMove, parsePlayerSpec, undoLastTurn, type PlayerSpec } from "./players.js";
+import { RemoteGame } from "./remote.js";
+import { runTournament, type TournamentGame } from "./tournament.js";
+import { OthelloTui } from "./tui.js";
+
+// Command line options, e.g. --size 6 --layout parallel --no-flip
+// --black/--white <player>   "human" (default), a difficulty (easy, medium, hard) or a strategy (random, greedy, positional, minimax)
+// --depth <plies>            Search depth of the minimax strategy (default 4)
+// --delay <ms>               Pause before each computer move (default 500)
+// --tournament <games>       Plays the given number of games between the computer players of --black and --white
+//                            without a board display and prints the statistics; the colors alternate
+// --seed <number>            Seed for the random numbers of the computer players, for reproducible games
+// --tui                      Full-screen UI: select moves with the arrow keys, valid moves are highlighted
+// --board <file|rows>        Start position: a file or an inline string with one row per line (or separated by "/"),
+//                            "B" and "W" for the discs, "." for empty fields; the board size follows from the rows
+// --player <black|white>     Player to move first (default black)
+// --export <file>            Writes the game transcript and the final position to the file when the game ends or on "q"
+// --connect <url> --room <id> Plays against another player on an othello-server (e.g. ws://192.168.1.20:3001) in the
+//                            given room; the first player to join plays Black. --name <name> is shown to the opponent,
+//                            --token <token> takes back the seat of an earlier connection
+// --time <min+inc>           Clocks for both players, e.g. "5+3": 5 minutes per player and 3 seconds added after each
+//                            move; a player who runs out of time loses. Also limits the computer players in a tournament
+// --book <file>              Opening book with one opening per line, e.g. "f5d6c3d3c4 Tiger" (default: built-in book).
+//                            The computer players play its moves and the name of the opening is shown
+// --no-book                  The computer players search from the first move (the opening is still named)
+const { values: args } = parseArgs({
+  options: {
+    size: { type: "string", default: "8" },
+    layout: { type: "string", default: "crossed" },
+    "no-flip": { type: "boolean", default: false },
+    black: { type: "string", default: "human" },
+    white: { type: "string", default: "human" },
+    depth: { type: "string", default: "4" },
+    delay: { type: "string", default: "500" },
+    tournament: { type: "string" },
+    seed: { type: "string" },
+    tui: { type: "boolean", default: false },
+    board: { type: "string" },
+    player: { type: "string", default: "black" },
+    export: { type: "string" },
+    connect: { type: "string" },
+    room: { type: "string" },
+    name: { type: "string" },
+    token: { type: "string" },
+    time: { type: "string" },
+    book: { type: "string" },
+    "no-book": { type: "boolean", default: false },
+  },
+});
+
+const size = Number(args.size);
+if (!isValidBoardSize(size)) {
+  console.error(`Invalid board size "${args.size}". Use an even number between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}.`);
+  process.exit(1);
+}
+if (args.layout !== "crossed" && args.layout !== "parallel") {
+  console.error(`Invalid start layout "${args.layout}". Use "crossed" or "parallel".`);
+  process.exit(1);
+}
+
+const depth = Number(args.depth);
+if (!Number.isInteger(depth) || depth < 1) {
+  console.error(`Invalid search depth "${args.depth}". Use a positive integer.`);
+  process.exit(1);
+}
+const delay = Number(args.delay);
+if (!(delay >= 0)) {
+  console.error(`Invalid delay "${args.delay}". Use a number of milliseconds.`);
+  process.exit(1);
+}
+if (args.connect !== undefined && !args.room) {
+  console.error("--connect needs a room, e.g. --room friday.");
+  process.exit(1);
+}
+const timeControl: TimeControl | null = args.time === undefined ? null : parseTimeControl(args.time);
+if (args.time !== undefined && !timeControl) {
+  console.error(`Invalid time control "${args.time}". Use minutes and increment seconds, e.g. "5+3" or "10".`);
+  process.exit(1);
+}
+if (timeControl && (args.tui || args.connect !== undefined)) {
+  console.error("--time is not supported with --tui or --connect (the server has its own --move-timeout).");
+  process.exit(1);
+}
+const random = args.seed === undefined ? Math.random : createSeededRandom(Number(args.seed));
+const book = loadOpeningBook();
+
+const players: Record<Player, PlayerSpec> = {
+  B: parsePlayerOption(args.black),
+  W: parsePlayerOption(args.white),
+};
+
+const boardOptions: BoardOptions = {
+  size,
+  startLayout: args.layout,
+  allowNoFlipMoves: args["no-flip"],
+};
+
+if (args.tournament !== undefined) {
+  playTournament(args.tournament);
+  process.exit(0);
+}
 
 // Global variables
-let board: OthelloBoard = OthelloBoard.createEmpty();
-let rl: readline.Interface = readline.createInterface({
-  input: process.stdin,
-  output: process.stdout,
-});
+const board: OthelloBoard = createBoard();
+// Created when the game starts, the full-screen UI reads the keys itself
+let rl: readline.Interface;
+const clock = timeControl && new GameClock(timeControl);
+// The player who ran out of time
+let flagged: Player | null = null;
+
+function parsePlayerOption(value: string): PlayerSpec {
+  const player = parsePlayerSpec(value, { depth, random, ...(!args["no-book"] && { book }) });
+  if (!player) {
+    console.error(`Invalid player "${value}". Use one of: ${PLAYER_CHOICES.join(", ")}.`);
+    process.exit(1);
+  }
+  return player;
+}
+
+/**
+ * Load the opening book from --book, or the built-in book
+ */
+function loadOpeningBook(): OpeningBook {
+  if (args.book === undefined) {
+    return createStandardOpeningBook();
+  }
+  if (!fs.existsSync(args.book)) {
+    console.error(`Opening book "${args.book}" not found.`);
+    process.exit(1);
+  }
+  const result = parseOpeningBook(fs.readFileSync(args.book, { encoding: "utf-8" }));
+  if (isInvalidBoardResult(result)) {
+    console.error(`Invalid opening book: ${result.error}`);
+    process.exit(1);
+  }
+  return result;
+}
+
+/**
+ * Create the board from --board and --player, or the standard start position
+ */
+function createBoard(): OthelloBoard {
+  const player = args.player.toLowerCase();
+  if (!["black", "white", "b", "w"].includes(player)) {
+    console.error(`Invalid player to move "${args.player}". Use "black" or "white".`);
+    process.exit(1);
+  }
+
+  let text = OthelloBoard.createEmpty(boardOptions).toString();
+  if (args.board !== undefined) {
+    text = fs.existsSync(args.board) ? fs.readFileSync(args.board, { encoding: "utf-8" }) : args.board;
+  }
+  const rows = text
+    .split(/[\n/]/)
+    .map((row) => row.trim())
+    .filter((row) => row !== "");
+
+  const result = OthelloBoard.fromString(rows.join("\n"), player.startsWith("b") ? "B" : "W", {
+    ...boardOptions,
+    size: rows.length,
+  });
+  if (isInvalidBoardResult(result)) {
+    console.error(`Invalid board: ${result.error}`);
+    process.exit(1);
+  }
+  return result;
+}
+
+/**
+ * Write the transcript and the final position to the file given with --export
+ */
+async function exportGame(): Promise<void> {
+  if (args.export === undefined) {
+    return;
+  }
+
+  const opening = book.getOpeningName(board);
+  const transcript = exportTranscript(board, {
+    Black: describePlayer(players.B),
+    White: describePlayer(players.W),
+    Date: new Date().toISOString().slice(0, 10),
+    ...(opening && { Opening: opening }),
+    ...(timeControl && { TimeControl: formatTimeControl(timeControl) }),
+    ...(flagged && { Termination: `time forfeit (${flagged === "B" ? "Black" : "White"} ran out of time)` }),
+    FinalPosition: exportPosition(board),
+  });
+  await fs.promises.writeFile(args.export, transcript, { encoding: "utf-8" });
+  console.log(`💾 Game saved to ${args.export}`);
+}
+
+/**
+ * Play the tournament between the computer players and print the statistics
+ */
+function playTournament(gamesOption: string): void {
+  const games = Number(gamesOption);
+  if (!Number.isInteger(games) || games < 1) {
+    console.error(`Invalid number of games "${gamesOption}". Use a positive integer.`);
+    process.exit(1);
+  }
+  const [first, second] = [players.B, players.W];
+  if (first.type !== "computer" || second.type !== "computer") {
+    console.error("A tournament needs two computer players, e.g. --black minimax --white greedy.");
+    process.exit(1);
+  }
+
+  const labels = [`#1 ${first.label}`, `#2 ${second.label}`] as const;
+  const timing = timeControl ? `, time control ${formatTimeControl(timeControl)}` : "";
+  console.log(`\n🏟️  Tournament: ${labels[0]} vs ${labels[1]}, ${games} games (colors alternate)${timing}\n`);
+
+  const onGame = (game: TournamentGame) => {
+    const black = labels[game.blackPlayer];
+    const white = labels[game.blackPlayer === 0 ? 1 : 0];
+    const winner =
+      game.winner === "draw" ? "draw" : `${game.winner === "B" ? black : white} wins${game.flagged ? " on time" : ""}`;
+    console.log(`Game ${game.number}: ${black} (●) ${game.black} - ${game.white} ${white} (○) → ${winner}`);
+  };
+  const result = runTournament([first, second], games, boardOptions, onGame, timeControl);
+
+  const percent = (count: number) => `${((count / games) * 100).toFixed(1)}%`;
+  const averageDifference = result.discDifference / games;
+  console.log("\n" + "=".repeat(40));
+  console.log(`${labels[0]}: ${result.wins[0]} wins (${percent(result.wins[0])})`);
+  console.log(`${labels[1]}: ${result.wins[1]} wins (${percent(result.wins[1])})`);
+  console.log(`Draws: ${result.draws} (${percent(result.draws)})`);
+  console.log(`Average disc difference: ${averageDifference >= 0 ? "+" : ""}${averageDifference.toFixed(1)} for ${labels[0]}`);
+  console.log("=".repeat(40) + "\n");
+}
 
 /**
  * Display the board with row and column labels
  */
 function displayBoard(): void {
-  console.log("\n" + board.toFormattedString());
+  console.log("\n" + board.toFormattedString({ showValidMoves: true }));
 }
 
 /**
  * Calculate and display the current score
  */
 function displayScore(): void {
-  const boardString = board.toString();
-  const blackCount = (boardString.match(/B/g) || []).length;
-  const whiteCount = (boardString.match(/W/g) || []).length;
+  const { black, white } = board.getGameStatistics();
+
+  console.log(`\n📊 Score: Black (●) ${black} - White (○) ${white}`);
+  const opening = book.getOpeningName(board);
+  if (opening) {
+    console.log(`📖 Opening: ${opening}`);
+  }
+  if (clock) {
+    console.log(`⏱️  Clock: Black (●) ${formatRemaining("B")} - White (○) ${formatRemaining("W")}`);
+  }
+}
 
-  console.log(`\n📊 Score: Black (●) ${blackCount} - White (○) ${whiteCount}`);
+function formatRemaining(player: Player): string {
+  return formatClockTime(clock?.getRemaining(player) ?? 0);
 }
 
 /**
@@ -36,17 +289,12 @@ function displayValidMoves(moves: Move[]): void {
   }
 
   console.log(`\n✓ Valid moves for ${getPlayerName()}:`);
-  const moveStrings = moves.map((m) => positionToString(m.position));
+  const moveStrings = moves.map((m) => OthelloBoard.formatPosition(m.position));
   console.log(`  ${moveStrings.join(", ")}`);
 }
 
-/**
- * Convert position to string notation (e.g., A1, B2)
- */
-function positionToString(pos: { row: number; col: number }): string {
-  const col = String.fromCharCode("A".charCodeAt(0) + pos.col);
-  const row = pos.row + 1;
-  return `${col}${row}`;
+function describePlayer(player: PlayerSpec): string {
+  return player.type === "human" ? "human" : `computer (${player.label})`;
 }
 
 /**
@@ -57,42 +305,24 @@ function getPlayerName(): string {
   return currentPlayer === "B" ? "Black (●)" : "White (○)";
 }
 
-/**
- * Check if the game is over
- * We need to check both players' valid moves to determine if the game is truly over
- */
-function isGameOver(): boolean {
-  // Create temporary boards to check each player's moves
-  const currentBoardString = board.toString();
-  const blackBoard = OthelloBoard.fromString(currentBoardString, "B");
-  const whiteBoard = OthelloBoard.fromString(currentBoardString, "W");
-
-  if (isInvalidBoardResult(blackBoard) || isInvalidBoardResult(whiteBoard)) {
-    return false;
-  }
-
-  const blackMoves = blackBoard.getValidMoves().moves;
-  const whiteMoves = whiteBoard.getValidMoves().moves;
-
-  return blackMoves.length === 0 && whiteMoves.length === 0;
-}
-
 /**
  * Display the game winner
  */
 function displayWinner(): void {
-  const boardString = board.toString();
-  const blackCount = (boardString.match(/B/g) || []).length;
-  const whiteCount = (boardString.match(/W/g) || []).length;
+  const { black, white } = board.getGameStatistics();
+  const winner = flagged ? (flagged === "B" ? "W" : "B") : board.getWinner();
 
   console.log("\n" + "=".repeat(40));
   console.log("🎮 GAME OVER!");
   console.log("=".repeat(40));
-  console.log(`Final Score: Black (●) ${blackCount} - White (○) ${whiteCount}`);
+  console.log(`Final Score: Black (●) ${black} - White (○) ${white}`);
+  if (flagged) {
+    console.log(`⏰ ${flagged === "B" ? "Black (●)" : "White (○)"} ran out of time.`);
+  }
 
-  if (blackCount > whiteCount) {
+  if (winner === "B") {
     console.log("🏆 Black (●) wins!");
-  } else if (whiteCount > blackCount) {
+  } else if (winner === "W") {
     console.log("🏆 White (○) wins!");
   } else {
     console.log("🤝 It's a tie!");
@@ -103,32 +333,72 @@ function displayWinner(): void {
 /**
  * Prompt the player for input
  */
-function promptMove(validMoves: Move[]): Promise<string> {
+function promptMove(validMoves: Move[]): Promise<string | null> {
   return new Promise((resolve) => {
-    rl.question(`\n${getPlayerName()}'s turn. Enter move (e.g., A1) or 'q' to quit: `, (answer) => {
-      resolve(answer.trim());
-    });
+    // Close the prompt when the player's time runs out
+    const controller = new AbortController();
+    const timeToFlag = clock?.getTimeToFlag() ?? null;
+    const timer =
+      timeToFlag === null
+        ? undefined
+        : setTimeout(() => {
+            controller.abort();
+            resolve(null);
+          }, timeToFlag);
+
+    const time = clock ? ` [● ${formatRemaining("B")} | ○ ${formatRemaining("W")}]` : "";
+    const pause = clock ? ", 'p' pause" : "";
+    rl.question(
+      `\n${getPlayerName()}'s turn${time}. Enter move (e.g., A1), 'h' hint, 'a' analyze, 'u' undo${pause} or 'q' quit: `,
+      { signal: controller.signal },
+      (answer) => {
+        clearTimeout(timer);
+        resolve(answer.trim());
+      },
+    );
   });
 }
 
+/**
+ * Wait without running the clock, e.g. for the pause before a computer move
+ */
+async function pauseClockFor(ms: number): Promise<void> {
+  clock?.pause();
+  await new Promise((resolve) => setTimeout(resolve, ms));
+  clock?.resume();
+}
+
 /**
  * Main game loop
  */
 async function play(): Promise<void> {
+  rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
   console.log("\n" + "=".repeat(40));
   console.log("🎮 OTHELLO / REVERSI");
   console.log("=".repeat(40));
   console.log("Rules:");
-  console.log("• Black (●) goes first");
+  console.log(`• ${getPlayerName()} goes first`);
   console.log("• Place discs to flip opponent's discs");
+  if (args["no-flip"]) {
+    console.log("• Variant: discs may also be placed next to any disc without flipping");
+  }
   console.log("• Valid moves shown as (·)");
   console.log("• Enter moves like: A1, B2, C3, etc.");
+  console.log('• Type "h" for a hint, "a" to analyze the position');
+  console.log('• Type "u" to take back the last move');
   console.log('• Type "q" to quit');
+  if (timeControl) {
+    console.log(`• Time control: ${formatTimeControl(timeControl)}, type "p" to pause the clock`);
+  }
+  console.log(`• Black (●): ${describePlayer(players.B)}, White (○): ${describePlayer(players.W)}`);
   console.log("=".repeat(40));
 
-  let consecutivePasses = 0;
-
-  while (!isGameOver()) {
+  clock?.start(board.getCurrentPlayer());
+  while (!board.isGameOver()) {
     const validMovesResult = board.getValidMoves();
     const validMoves = validMovesResult.moves;
 
@@ -139,56 +409,128 @@ async function play(): Promise<void> {
     // If no valid moves, pass turn
     if (validMoves.length === 0) {
       console.log(`\n⏭️  ${getPlayerName()} passes (no valid moves).`);
-      consecutivePasses++;
+      await pauseClockFor(1500);
+      board.pass();
+      clock?.press();
+      continue;
+    }
 
-      if (consecutivePasses >= 2) {
-        break; // Game ends if both players pass
+    const player = players[board.getCurrentPlayer()];
+    if (player.type === "computer") {
+      await pauseClockFor(delay);
+      const name = getPlayerName();
+      const move = chooseComputerMove(player, board, clock);
+      if (clock?.getFlaggedPlayer()) {
+        flagged = board.getCurrentPlayer();
+        break;
       }
-
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Manually switch player by creating a new board with the opposite player
-      const currentBoardString = board.toString();
-      const nextPlayer = board.getCurrentPlayer() === "B" ? "W" : "B";
-      const newBoard = OthelloBoard.fromString(currentBoardString, nextPlayer);
-      if (!isInvalidBoardResult(newBoard)) {
-        board = newBoard;
+      const result = move && board.tryApplyMove(move.position);
+      if (!result || isInvalidMoveResult(result)) {
+        throw new Error(`The ${player.label} strategy did not find a valid move.`);
       }
+      clock?.press();
+      const flipped = result.flippedPositions.length;
+      console.log(
+        `\n🤖 ${name} plays ${OthelloBoard.formatPosition(result.position)}, ${flipped} disc${flipped === 1 ? "" : "s"} flipped.`,
+      );
       continue;
     }
 
-    consecutivePasses = 0;
-
     // Get player input
     const input = await promptMove(validMoves);
 
+    if (input === null || clock?.getFlaggedPlayer()) {
+      flagged = board.getCurrentPlayer();
+      console.log();
+      break;
+    }
+
     if (input.toLowerCase() === "q") {
       console.log("\n👋 Game quit by player.");
       rl.close();
+      await exportGame();
       return;
     }
 
+    if (input.toLowerCase() === "h" || input.toLowerCase() === "hint") {
+      console.log(`\n${formatHint(board, depth)}`);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      continue;
+    }
+
+    if (input.toLowerCase() === "a" || input.toLowerCase() === "analyze") {
+      console.log(`\n${formatAnalysis(board, depth)}`);
+      continue;
+    }
+
+    if (clock && input.toLowerCase() === "p") {
+      clock.pause();
+      await new Promise((resolve) => rl.question("\n⏸️  Clock paused. Press Enter to resume...", resolve));
+      clock.resume();
+      continue;
+    }
+
+    if (input.toLowerCase() === "u") {
+      if (undoLastTurn(board, players)) {
+        clock?.start(board.getCurrentPlayer());
+        console.log("\n↩️  Last move taken back.");
+      } else {
+        console.log("\n❌ Nothing to undo.");
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+      continue;
+    }
+
     // Try to apply the move (this will automatically switch the player)
-    const success = board.tryApplyMove(input);
+    const result = board.tryApplyMove(input);
 
-    if (!success) {
-      console.log("\n❌ Invalid move! Please try again.");
+    if (isInvalidMoveResult(result)) {
+      console.log(`\n❌ Invalid move: ${result.error} Please try again.`);
       await new Promise((resolve) => setTimeout(resolve, 1000));
       continue;
     }
 
-    console.log(`\n✓ Move ${input.toUpperCase()} applied successfully!`);
+    clock?.press();
+    const flipped = result.flippedPositions.length;
+    console.log(
+      `\n✓ Move ${OthelloBoard.formatPosition(result.position)} applied, ${flipped} disc${flipped === 1 ? "" : "s"} flipped!`,
+    );
   }
 
   // Game over
+  clock?.stop();
   displayBoard();
   displayScore();
   displayWinner();
   rl.close();
+  await exportGame();
+}
+
+/**
+ * Play in the full-screen UI and show the final position afterwards
+ */
+async function playInTui(): Promise<void> {
+  await new OthelloTui(board, { players, delay }).run();
+
+  displayBoard();
+  displayScore();
+  if (board.isGameOver()) {
+    displayWinner();
+  } else {
+    console.log("\n👋 Game quit by player.");
+  }
+  await exportGame();
+}
+
+/**
+ * Play on an othello-server against another player
+ */
+async function playRemote(url: string, room: string): Promise<void> {
+  await new RemoteGame({ url, room, name: args.name, token: args.token }).play();
 }
 
 // Start the game
-play().catch((error) => {
+(args.connect !== undefined ? playRemote(args.connect, args.room!) : args.tui ? playInTui() : play()).catch((error) => {
   console.error("Error running game:", error);
   process.exit(1);
 });
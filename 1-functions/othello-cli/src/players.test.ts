@@ -0,0 +1,38 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, isInvalidBoardResult } from "othello-game";
+import { parsePlayerSpec, undoLastTurn, type PlayerSpec } from "./players.js";
+
+const human: PlayerSpec = { type: "human" };
+const computer = parsePlayerSpec("greedy")!;
+
+describe("undo", () => {
+  test("takes back the human's move together with the computer's reply", () => {
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("D3");
+    board.tryApplyMove("C3");
+
+    expect(undoLastTurn(board, { B: human, W: computer })).toBe(true);
+    expect(board.getHistory()).toEqual([]);
+  });
+
+  test("does not take back the computer's opening move when the human has not moved yet", () => {
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("D3");
+
+    expect(undoLastTurn(board, { B: computer, W: human })).toBe(false);
+    expect(board.getHistory()).toHaveLength(1);
+  });
+
+  test("takes back the passes after the human's move", () => {
+    // White has no move after C4 and passes, Black can still play D1
+    const board = OthelloBoard.fromString(["WWW.", "WWWW", "WWWW", "BW.."].join("\n"), "B", { size: 4 });
+    if (isInvalidBoardResult(board)) {
+      throw new Error(board.error);
+    }
+    board.tryApplyMove("C4");
+    expect(board.pass()).toBe(true);
+
+    expect(undoLastTurn(board, { B: human, W: human })).toBe(true);
+    expect(board.getHistory()).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  STRATEGY_NAMES,
+  allocateMoveTime,
+  createStrategy,
+  type EngineMove,
+  type EngineOptions,
+  type GameClock,
+  type OthelloBoard,
+  type Player,
+  type Strategy,
+  type StrategyName,
+} from "othello-game";
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+/**
+ * Strategies behind the difficulty levels.
+ */
+export const DIFFICULTIES: Record<Difficulty, StrategyName> = {
+  easy: "random",
+  medium: "positional",
+  hard: "minimax",
+};
+
+export type PlayerSpec =
+  | { type: "human" }
+  | {
+      type: "computer";
+      /**
+       * Strategy name or difficulty as given on the command line, e.g. "minimax" or "hard".
+       */
+      label: string;
+      strategy: Strategy;
+      /**
+       * Options the strategy was created with, to create it again with a time limit in timed games.
+       */
+      engineOptions: EngineOptions;
+    };
+
+export type ComputerPlayer = Extract<PlayerSpec, { type: "computer" }>;
+
+/**
+ * Values accepted by --black and --white.
+ */
+export const PLAYER_CHOICES = ["human", ...Object.keys(DIFFICULTIES), ...STRATEGY_NAMES];
+
+/**
+ * Parses a player given on the command line: "human", a difficulty or a strategy name.
+ * The engine options (search depth, random number generator) apply to computer players.
+ * Returns null for unknown values.
+ */
+export function parsePlayerSpec(value: string, options: Omit<EngineOptions, "strategy"> = {}): PlayerSpec | null {
+  const name = value.toLowerCase();
+  if (name === "human") {
+    return { type: "human" };
+  }
+
+  const strategy = DIFFICULTIES[name as Difficulty] ?? STRATEGY_NAMES.find((strategy) => strategy === name);
+  if (!strategy) {
+    return null;
+  }
+  const engineOptions: EngineOptions = { ...options, strategy };
+  return { type: "computer", label: name, strategy: createStrategy(engineOptions), engineOptions };
+}
+
+/**
+ * Chooses the move of a computer player. In a timed game, the search may use a share of the player's
+ * remaining time (see allocateMoveTime), otherwise it is only limited by the search depth.
+ */
+export function chooseComputerMove(player: ComputerPlayer, board: OthelloBoard, clock: GameClock | null): EngineMove | null {
+  const remaining = clock?.getRemaining(board.getCurrentPlayer()) ?? null;
+  if (!clock?.timeControl || remaining === null) {
+    return player.strategy.chooseMove(board);
+  }
+  const { black, white } = board.getGameStatistics();
+  const emptyFields = board.getSize() ** 2 - black - white;
+  const timeLimitMs = allocateMoveTime(remaining, clock.timeControl, emptyFields);
+  return createStrategy({ ...player.engineOptions, timeLimitMs }).chooseMove(board);
+}
+
+/**
+ * Takes back the last move of a human together with the passes and the computer's moves after it, which
+ * would otherwise be made again right away, so that the human can move again. Returns false and leaves
+ * the board unchanged if no human has moved yet.
+ */
+export function undoLastTurn(board: OthelloBoard, players: Record<Player, PlayerSpec>): boolean {
+  const history = board.getHistory();
+  const index = history.findLastIndex((entry) => entry.type === "move" && players[entry.player].type === "human");
+  if (index === -1) {
+    return false;
+  }
+  for (let count = history.length - index; count > 0; count--) {
+    board.undo();
+  }
+  return true;
+}
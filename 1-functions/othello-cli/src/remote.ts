@@ -0,0 +1,270 @@
+import { importPosition, isInvalidBoardResult, type Player } from "othello-game";
+import type { ClientMessage, RoomState, ServerMessage } from "othello-server/protocol";
+import * as readline from "readline";
+import { WebSocket } from "ws";
+
+export type RemoteGameOptions = {
+  /**
+   * WebSocket URL of the othello-server, e.g. "ws://192.168.1.20:3001".
+   */
+  url: string;
+  room: string;
+  name: string | undefined;
+  /**
+   * Token of a seat from an earlier connection, to take the seat back.
+   */
+  token: string | undefined;
+};
+
+/**
+ * Waits before the reconnect attempts after a lost connection; the client gives up after the last one.
+ */
+const RECONNECT_DELAYS_MS = [1000, 2000, 4000, 8000, 16000];
+
+/**
+ * Plays a game on an othello-server: joins the room, shows the board after every move and asks for
+ * a move when it is the player's turn. The server checks the moves and makes the passes. A lost
+ * connection is restored with the seat token from the "joined" message.
+ */
+export class RemoteGame {
+  private socket: WebSocket | null = null;
+  private rl: readline.Interface | null = null;
+  private color: Player | null = null;
+  private token: string | undefined;
+  private state: RoomState | null = null;
+  private prompting = false;
+  private leaving = false;
+  private reconnectAttempt = 0;
+  private resolvePlay: (() => void) | null = null;
+
+  constructor(private readonly options: RemoteGameOptions) {
+    this.token = options.token;
+  }
+
+  /**
+   * Resolves when the game is over, the player quits or the connection cannot be restored.
+   */
+  public play(): Promise<void> {
+    this.rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    // Ctrl+C or Ctrl+D
+    this.rl.on("SIGINT", () => this.leave());
+    this.rl.on("close", () => {
+      if (this.rl) {
+        this.leave();
+      }
+    });
+
+    console.log(`\n🌐 Connecting to ${this.options.url}...`);
+    this.connect();
+    return new Promise((resolve) => {
+      this.resolvePlay = resolve;
+    });
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      this.reconnectAttempt = 0;
+      this.send({ type: "join", room: this.options.room, name: this.options.name, token: this.token });
+    });
+    socket.on("message", (data) => this.handleMessage(JSON.parse(data.toString()) as ServerMessage));
+    socket.on("error", (error) => console.log(`\n⚠️  Connection error: ${error.message}`));
+    socket.on("close", () => {
+      if (this.socket !== socket) {
+        return;
+      }
+      this.socket = null;
+      if (this.leaving || this.state?.result) {
+        this.stop();
+        return;
+      }
+
+      const delay = RECONNECT_DELAYS_MS[this.reconnectAttempt];
+      if (delay === undefined) {
+        console.log("\n❌ The connection to the server could not be restored.");
+        this.stop();
+        return;
+      }
+      this.reconnectAttempt += 1;
+      console.log(`\n🔌 Connection lost, reconnecting in ${delay / 1000}s...`);
+      setTimeout(() => this.connect(), delay);
+    });
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case "joined": {
+        // With an unknown token, e.g. of a room that was closed in the meantime, the server seats the player anew
+        const rejoined = message.token === this.token;
+        this.color = message.color;
+        this.token = message.token;
+        console.log(
+          rejoined ? "\n🔗 Reconnected." : `\n🔗 Joined room "${message.room}" as ${RemoteGame.playerName(message.color)}.`,
+        );
+        break;
+      }
+      case "notice":
+        this.print(`📣 ${message.message}`);
+        break;
+      case "error":
+        this.print(`❌ ${message.message}`);
+        if (!this.color) {
+          // The join failed, e.g. because the room is full
+          this.leave();
+        } else {
+          this.promptMove();
+        }
+        break;
+      case "state":
+        this.handleState(message.state);
+        break;
+    }
+  }
+
+  private handleState(state: RoomState): void {
+    const previous = this.state;
+    this.state = state;
+
+    // While the prompt is open, only a finished game matters (e.g. the opponent left); redraw the prompt otherwise
+    if (this.prompting && !state.result && state.position === previous?.position) {
+      this.rl?.prompt(true);
+      return;
+    }
+
+    this.displayBoard(state);
+
+    if (state.result) {
+      this.displayResult(state);
+      this.leaving = true;
+      this.socket?.close();
+      return;
+    }
+    if (state.status === "waiting") {
+      console.log(`\n⏳ Waiting for an opponent to join room "${state.room}"...`);
+    } else if (state.currentPlayer === this.color) {
+      this.promptMove();
+    } else {
+      const opponent = state.players[state.currentPlayer];
+      console.log(`\n⏳ Waiting for ${opponent?.name ?? RemoteGame.playerName(state.currentPlayer)}...`);
+    }
+  }
+
+  private promptMove(): void {
+    const state = this.state;
+    if (!this.rl || this.prompting || !state || state.result || state.currentPlayer !== this.color) {
+      return;
+    }
+
+    const seconds = state.moveDeadline === null ? null : Math.max(0, Math.round((state.moveDeadline - Date.now()) / 1000));
+    const timeLeft = seconds === null ? "" : ` [${seconds}s left]`;
+    this.prompting = true;
+    this.rl.question(`\nYour move${timeLeft} (e.g., D3), 'r' to resign or 'q' to quit: `, (answer) => {
+      this.prompting = false;
+      const input = answer.trim();
+      if (input.toLowerCase() === "q") {
+        this.leave();
+      } else if (input.toLowerCase() === "r") {
+        this.send({ type: "resign" });
+      } else if (!this.send({ type: "move", position: input })) {
+        this.print("❌ Not connected to the server, please wait.");
+      }
+    });
+  }
+
+  private displayBoard(state: RoomState): void {
+    const board = importPosition(state.position);
+    if (isInvalidBoardResult(board)) {
+      throw new Error(`The server sent an invalid position: ${board.error}`);
+    }
+
+    const describe = (player: Player) => {
+      const seat = state.players[player];
+      const name = seat ? `${seat.name}${seat.connected ? "" : " (disconnected)"}` : "-";
+      return `${RemoteGame.playerName(player)} ${name}${player === this.color ? " (you)" : ""}`;
+    };
+
+    console.log(`\n${describe("B")} vs. ${describe("W")}`);
+    if (state.lastMove) {
+      console.log(
+        `${RemoteGame.playerName(state.lastMove.player)} played ${state.lastMove.position}, ${state.lastMove.flipped} disc${state.lastMove.flipped === 1 ? "" : "s"} flipped.`,
+      );
+    }
+    for (const player of state.passed) {
+      console.log(`⏭️  ${RemoteGame.playerName(player)} passes (no valid moves).`);
+    }
+    console.log(
+      `\n${board.toFormattedString({ showValidMoves: state.status === "playing" && state.currentPlayer === this.color })}`,
+    );
+
+    const { black, white } = board.getGameStatistics();
+    console.log(`\n📊 Score: Black (●) ${black} - White (○) ${white}`);
+  }
+
+  private displayResult(state: RoomState): void {
+    const result = state.result!;
+    const reasons: Record<typeof result.reason, string> = {
+      "game-over": "",
+      resigned: " by resignation",
+      timeout: " on time",
+      abandoned: " (no reconnect in time)",
+    };
+    const winner =
+      result.winner === "draw"
+        ? "It's a tie"
+        : result.winner === this.color
+          ? `🏆 You win${reasons[result.reason]}`
+          : `You lose${reasons[result.reason]}`;
+    console.log(`\n${"=".repeat(40)}\nGame over: ${winner} (${result.black}:${result.white}).\n${"=".repeat(40)}`);
+  }
+
+  private leave(): void {
+    if (this.leaving) {
+      return;
+    }
+    this.leaving = true;
+    if (this.socket) {
+      if (this.color) {
+        console.log(
+          `\n👋 Left the game. Join again with --room ${this.options.room} --token ${this.token} before the reconnect timeout.`,
+        );
+      }
+      this.socket.close();
+    } else {
+      this.stop();
+    }
+  }
+
+  private stop(): void {
+    const rl = this.rl;
+    this.rl = null;
+    rl?.close();
+    this.resolvePlay?.();
+  }
+
+  /**
+   * Sends the message if the connection is open. Returns false otherwise.
+   */
+  private send(message: ClientMessage): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  /**
+   * Prints a message without losing an open prompt.
+   */
+  private print(message: string): void {
+    console.log(`\n${message}`);
+    if (this.prompting) {
+      this.rl?.prompt(true);
+    }
+  }
+
+  private static playerName(player: Player): string {
+    return player === "B" ? "Black (●)" : "White (○)";
+  }
+}
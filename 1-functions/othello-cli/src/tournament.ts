@@ -0,0 +1,100 @@
+import { GameClock, OthelloBoard, type BoardOptions, type GameResult, type Player, type TimeControl } from "othello-game";
+import { chooseComputerMove, type ComputerPlayer } from "./players.js";
+
+export type TournamentGame = {
+  /**
+   * 1-based number of the game.
+   */
+  number: number;
+  /**
+   * Index of the player (0 or 1) who played Black. The colors alternate from game to game.
+   */
+  blackPlayer: 0 | 1;
+  black: number;
+  white: number;
+  winner: GameResult;
+  /**
+   * The player who lost on time in a timed game, null if the game was played to the end.
+   */
+  flagged: Player | null;
+};
+
+export type PlayedGame = {
+  board: OthelloBoard;
+  winner: GameResult;
+  flagged: Player | null;
+};
+
+export type TournamentResult = {
+  games: number;
+  wins: [number, number];
+  draws: number;
+  /**
+   * Sum of the disc differences from the perspective of the first player.
+   */
+  discDifference: number;
+};
+
+/**
+ * Plays a game between two computer players without any output. With a time control, each player
+ * has a clock and loses when a move takes longer than the remaining time.
+ */
+export function playGame(
+  black: ComputerPlayer,
+  white: ComputerPlayer,
+  boardOptions: BoardOptions = {},
+  timeControl: TimeControl | null = null,
+): PlayedGame {
+  const board = OthelloBoard.createEmpty(boardOptions);
+  const clock = timeControl && new GameClock(timeControl);
+  clock?.start(board.getCurrentPlayer());
+
+  while (!board.isGameOver()) {
+    const player = board.getCurrentPlayer();
+    const move = chooseComputerMove(player === "B" ? black : white, board, clock);
+    if (clock?.getFlaggedPlayer()) {
+      return { board, winner: player === "B" ? "W" : "B", flagged: player };
+    }
+    if (move) {
+      board.tryApplyMove(move.position);
+    } else {
+      board.pass();
+    }
+    clock?.press();
+  }
+  return { board, winner: board.getWinner() ?? "draw", flagged: null };
+}
+
+/**
+ * Plays a number of games between two computer players. The players alternate colors, the first player
+ * starts with Black. onGame is called after every game, e.g. to print the progress.
+ */
+export function runTournament(
+  players: [ComputerPlayer, ComputerPlayer],
+  games: number,
+  boardOptions: BoardOptions = {},
+  onGame?: (game: TournamentGame) => void,
+  timeControl: TimeControl | null = null,
+): TournamentResult {
+  const result: TournamentResult = { games, wins: [0, 0], draws: 0, discDifference: 0 };
+
+  for (let number = 1; number <= games; number++) {
+    const blackPlayer = number % 2 === 1 ? 0 : 1;
+    const { board, winner, flagged } =
+      blackPlayer === 0
+        ? playGame(players[0], players[1], boardOptions, timeControl)
+        : playGame(players[1], players[0], boardOptions, timeControl);
+    const { black, white } = board.getGameStatistics();
+
+    if (winner === "draw") {
+      result.draws++;
+    } else {
+      result.wins[(winner === "B") === (blackPlayer === 0) ? 0 : 1]++;
+    }
+    result.discDifference += blackPlayer === 0 ? black - white : white - black;
+
+    onGame?.({ number, blackPlayer, black, white, winner, flagged });
+  }
+
+  return result;
+}
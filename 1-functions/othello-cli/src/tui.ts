@@ -0,0 +1,354 @@
+import {
+  OthelloBoard,
+  isInvalidMoveResult,
+  type HistoryEntry,
+  type MoveHistoryEntry,
+  type Player,
+  type Position,
+} from "othello-game";
+import * as readline from "readline";
+import { undoLastTurn, type PlayerSpec } from "./players.js";
+
+export type TuiOptions = {
+  players: Record<Player, PlayerSpec>;
+  /**
+   * Pause before each computer move in milliseconds.
+   */
+  delay: number;
+};
+
+const ESC = "\x1b[";
+const RESET = `${ESC}0m`;
+const BOLD = `${ESC}1m`;
+const DIM = `${ESC}2m`;
+const INVERSE = `${ESC}7m`;
+const GREEN = `${ESC}32m`;
+const YELLOW = `${ESC}33m`;
+const CYAN = `${ESC}36m`;
+
+const PANEL_WIDTH = 30;
+const ANIMATION_FRAME_MS = 90;
+// Discs turn over in two steps: half turned, then the new color
+const FLIP_FRAMES: Record<Player, string[]> = {
+  B: ["◑", "●"],
+  W: ["◐", "○"],
+};
+
+const KEY_HELP = ["←↑↓→/hjkl move cursor", "Enter/Space place disc", "u undo   q quit"];
+
+/**
+ * Full-screen terminal UI in raw mode: the player moves a cursor over the board with the arrow keys,
+ * the valid moves are highlighted and flipped discs are animated. A side panel shows the score,
+ * the players and the move list. Computer players (see PlayerSpec) move on their own.
+ */
+export class OthelloTui {
+  private cursor: Position;
+  private message = "";
+  /**
+   * Discs shown differently while a flip animation runs, keyed by "row,col".
+   */
+  private animation = new Map<string, string>();
+  /**
+   * True while a computer move or an animation is running; only "q" is handled then.
+   */
+  private busy = false;
+  /**
+   * Set when the user quits: the computer moves end and nothing is drawn on the restored screen.
+   */
+  private stopped = false;
+  private resolveRun: (() => void) | null = null;
+
+  constructor(
+    private readonly board: OthelloBoard,
+    private readonly options: TuiOptions,
+  ) {
+    const center = Math.floor(board.getSize() / 2) - 1;
+    this.cursor = { row: center, col: center };
+  }
+
+  /**
+   * Takes over the terminal until the user quits. Resolves when the normal screen is restored.
+   */
+  public run(): Promise<void> {
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      throw new Error("The full-screen UI needs an interactive terminal.");
+    }
+
+    // Alternate screen buffer, hidden cursor
+    process.stdout.write(`${ESC}?1049h${ESC}?25l`);
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdin.on("keypress", this.onKeypress);
+    process.stdout.on("resize", this.render);
+
+    this.render();
+    void this.continueGame();
+
+    return new Promise((resolve) => {
+      this.resolveRun = resolve;
+    });
+  }
+
+  private stop(): void {
+    if (this.stopped) {
+      return;
+    }
+    this.stopped = true;
+    process.stdin.off("keypress", this.onKeypress);
+    process.stdout.off("resize", this.render);
+    process.stdin.setRawMode(false);
+    process.stdin.pause();
+    process.stdout.write(`${RESET}${ESC}?25h${ESC}?1049l`);
+    this.resolveRun?.();
+  }
+
+  private readonly onKeypress = (_text: string | undefined, key: readline.Key | undefined): void => {
+    if (!key) {
+      return;
+    }
+    if (key.name === "q" || (key.ctrl && key.name === "c")) {
+      this.stop();
+      return;
+    }
+    if (this.busy) {
+      return;
+    }
+
+    const size = this.board.getSize();
+    switch (key.name) {
+      case "up":
+      case "k":
+        this.cursor.row = (this.cursor.row + size - 1) % size;
+        break;
+      case "down":
+      case "j":
+        this.cursor.row = (this.cursor.row + 1) % size;
+        break;
+      case "left":
+      case "h":
+        this.cursor.col = (this.cursor.col + size - 1) % size;
+        break;
+      case "right":
+      case "l":
+        this.cursor.col = (this.cursor.col + 1) % size;
+        break;
+      case "return":
+      case "enter":
+      case "space":
+        void this.placeDisc({ ...this.cursor });
+        return;
+      case "u":
+        this.undo();
+        void this.continueGame();
+        return;
+      default:
+        return;
+    }
+    this.render();
+  };
+
+  private async placeDisc(position: Position): Promise<void> {
+    const result = this.board.tryApplyMove(position);
+    if (isInvalidMoveResult(result)) {
+      this.message = `${YELLOW}${result.error}${RESET}`;
+      this.render();
+      return;
+    }
+
+    this.message = "";
+    this.busy = true;
+    await this.animateFlips(result);
+    await this.continueGame();
+  }
+
+  /**
+   * Takes back the last move of a human and the passes and computer moves after it, so that the human is to move again.
+   */
+  private undo(): void {
+    this.message = undoLastTurn(this.board, this.options.players) ? "Move taken back." : "Nothing to undo.";
+  }
+
+  /**
+   * Makes the passes and the computer moves until a human has to move or the game is over.
+   */
+  private async continueGame(): Promise<void> {
+    this.busy = true;
+    while (!this.stopped && !this.board.isGameOver()) {
+      const player = this.board.getCurrentPlayer();
+      if (this.board.pass()) {
+        this.message = `${OthelloTui.playerName(player)} has no valid moves and passes.`;
+        continue;
+      }
+
+      const spec = this.options.players[player];
+      if (spec.type === "human") {
+        break;
+      }
+
+      this.message = `${OthelloTui.playerName(player)} (${spec.label}) is thinking...`;
+      this.render();
+      await new Promise((resolve) => setTimeout(resolve, this.options.delay));
+      if (this.stopped) {
+        return;
+      }
+      const move = spec.strategy.chooseMove(this.board);
+      const result = move && this.board.tryApplyMove(move.position);
+      if (!result || isInvalidMoveResult(result)) {
+        throw new Error(`The ${spec.label} strategy did not find a valid move.`);
+      }
+      this.message = `${OthelloTui.playerName(player)} played ${OthelloBoard.formatPosition(result.position)}.`;
+      await this.animateFlips(result);
+    }
+    this.busy = false;
+
+    if (this.board.isGameOver()) {
+      this.message = `${BOLD}${OthelloTui.describeResult(this.board)}${RESET} Press q to quit.`;
+    }
+    this.render();
+  }
+
+  private async animateFlips(move: MoveHistoryEntry): Promise<void> {
+    for (const glyph of FLIP_FRAMES[move.player]) {
+      for (const position of move.flippedPositions) {
+        this.animation.set(`${position.row},${position.col}`, `${YELLOW}${glyph}${RESET}`);
+      }
+      this.render();
+      await new Promise((resolve) => setTimeout(resolve, ANIMATION_FRAME_MS));
+    }
+    this.animation.clear();
+  }
+
+  private readonly render = (): void => {
+    if (this.stopped) {
+      return;
+    }
+    const columns = process.stdout.columns ?? 80;
+    const rows = process.stdout.rows ?? 24;
+    const boardLines = this.renderBoard();
+    const boardWidth = Math.max(...boardLines.map((line) => OthelloTui.visibleLength(line)));
+
+    let lines: string[];
+    if (columns < boardWidth || rows < boardLines.length) {
+      lines = [`Terminal too small (${columns}x${rows}).`, `Please resize it to at least ${boardWidth}x${boardLines.length}.`];
+    } else if (columns >= boardWidth + 3 + PANEL_WIDTH) {
+      // Panel to the right of the board
+      const panel = this.renderPanel(Math.max(rows - 2, boardLines.length));
+      lines = Array.from({ length: Math.max(boardLines.length, panel.length) }, (_, index) => {
+        const left = boardLines[index] ?? "";
+        return `${left}${" ".repeat(boardWidth - OthelloTui.visibleLength(left) + 3)}${panel[index] ?? ""}`;
+      });
+    } else {
+      // Narrow terminal: panel below the board
+      lines = [...boardLines, "", ...this.renderPanel(rows - boardLines.length - 3)];
+    }
+
+    process.stdout.write(`${ESC}H${ESC}2J\n${lines.slice(0, rows - 1).join("\n")}`);
+  };
+
+  private renderBoard(): string[] {
+    const size = this.board.getSize();
+    const validMoves = new Set(
+      this.board.isGameOver()
+        ? []
+        : this.board.getValidMoves().moves.map((move) => `${move.position.row},${move.position.col}`),
+    );
+    const lastMove = this.board
+      .getHistory()
+      .filter((entry): entry is MoveHistoryEntry => entry.type === "move")
+      .at(-1);
+
+    const labelWidth = String(size).length;
+    const indent = " ".repeat(labelWidth + 2);
+    const letters = Array.from({ length: size }, (_, col) => String.fromCharCode("A".charCodeAt(0) + col));
+    const lines = [`${indent} ${letters.join(" ")}`, `${indent}┌${"─".repeat(2 * size - 1)}┐`];
+
+    for (let row = 0; row < size; row++) {
+      const cells: string[] = [];
+      for (let col = 0; col < size; col++) {
+        const key = `${row},${col}`;
+        const cell = this.board.getCell({ row, col });
+        let glyph = this.animation.get(key) ?? (cell === "B" ? "●" : cell === "W" ? "○" : " ");
+        if (cell === null && validMoves.has(key)) {
+          glyph = `${GREEN}·${RESET}`;
+        } else if (!this.animation.has(key) && lastMove?.position.row === row && lastMove.position.col === col) {
+          glyph = `${CYAN}${glyph}${RESET}`;
+        }
+        if (row === this.cursor.row && col === this.cursor.col && !this.busy) {
+          glyph = `${INVERSE}${glyph}${RESET}`;
+        }
+        cells.push(glyph);
+      }
+      lines.push(` ${String(row + 1).padStart(labelWidth)} │${cells.join(" ")}│`);
+    }
+
+    lines.push(`${indent}└${"─".repeat(2 * size - 1)}┘`);
+    return lines;
+  }
+
+  private renderPanel(height: number): string[] {
+    const { black, white } = this.board.getGameStatistics();
+    const current = this.board.getCurrentPlayer();
+    const describe = (player: Player) => {
+      const spec = this.options.players[player];
+      const marker = !this.board.isGameOver() && player === current ? `${BOLD}▶${RESET}` : " ";
+      const count = player === "B" ? black : white;
+      return `${marker} ${OthelloTui.playerName(player)} ${String(count).padStart(2)}  ${DIM}${spec.type === "human" ? "human" : spec.label}${RESET}`;
+    };
+
+    const header = [`${BOLD}OTHELLO${RESET}`, "", describe("B"), describe("W"), "", ...this.wrap(this.message), ""];
+    const footer = ["", ...KEY_HELP.map((line) => `${DIM}${line}${RESET}`)];
+    // The move list gets the remaining space and shows the latest moves
+    const moveLines = OthelloTui.formatMoveList(this.board.getHistory());
+    const space = Math.max(0, height - header.length - footer.length - 1);
+    const moves = space > 0 ? moveLines.slice(-space) : [];
+    return [...header, `${BOLD}Moves${RESET}`, ...moves, ...footer];
+  }
+
+  private wrap(text: string): string[] {
+    if (text === "") {
+      return [];
+    }
+    const lines: string[] = [];
+    let line = "";
+    for (const word of text.split(" ")) {
+      if (line !== "" && OthelloTui.visibleLength(`${line} ${word}`) > PANEL_WIDTH) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line === "" ? word : `${line} ${word}`;
+      }
+    }
+    lines.push(line);
+    return lines;
+  }
+
+  /**
+   * Numbered move list with one line per pair of moves, e.g. " 1. D3  C5". Passes are shown as "--".
+   */
+  private static formatMoveList(history: HistoryEntry[]): string[] {
+    const lines: string[] = [];
+    for (let index = 0; index < history.length; index += 2) {
+      const pair = history
+        .slice(index, index + 2)
+        .map((entry) => (entry.type === "pass" ? "--" : OthelloBoard.formatPosition(entry.position)).padEnd(4));
+      lines.push(`${String(index / 2 + 1).padStart(2)}. ${pair.join("")}`);
+    }
+    return lines;
+  }
+
+  public static describeResult(board: OthelloBoard): string {
+    const { black, white } = board.getGameStatistics();
+    const winner = board.getWinner();
+    const result = winner === "B" || winner === "W" ? `${OthelloTui.playerName(winner)} wins` : "It's a tie";
+    return `Game over: ${result} (${black}:${white}).`;
+  }
+
+  private static playerName(player: Player): string {
+    return player === "B" ? "Black (●)" : "White (○)";
+  }
+
+  private static visibleLength(text: string): number {
+    return text.replace(/\x1b\[[0-9;?]*[a-zA-Z]/g, "").length;
+  }
+}
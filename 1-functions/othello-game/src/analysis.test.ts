@@ -0,0 +1,74 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, isInvalidBoardResult, type Player } from "./index.js";
+import { analyzePosition, countStableDiscs } from "./analysis.js";
+import { MinimaxStrategy } from "./engine.js";
+
+function createBoard(boardString: string, player: Player = "B"): OthelloBoard {
+  const board = OthelloBoard.fromString(boardString, player);
+  if (isInvalidBoardResult(board)) {
+    throw new Error(board.error);
+  }
+  return board;
+}
+
+describe("analysis", () => {
+  test("ranks all valid moves, best first, without modifying the board", () => {
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("D3");
+    const before = board.toString();
+
+    const analysis = analyzePosition(board, 3);
+
+    expect(analysis.player).toBe("W");
+    expect(analysis.rankedMoves.map((move) => OthelloBoard.formatPosition(move.position)).sort()).toEqual(["C3", "C5", "E3"]);
+    const scores = analysis.rankedMoves.map((move) => move.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(board.toString()).toBe(before);
+    expect(board.getHistory()).toHaveLength(1);
+  });
+
+  test("the best ranked move has the score of the move chosen by the minimax strategy", () => {
+    const board = OthelloBoard.createEmpty();
+    for (const move of ["D3", "C5", "F6", "F5"]) {
+      board.tryApplyMove(move);
+    }
+
+    const ranked = new MinimaxStrategy(3).rankMoves(board);
+    const chosen = new MinimaxStrategy(3).chooseMove(board);
+
+    expect(ranked[0]?.score).toBe(chosen?.score);
+  });
+
+  test("counts the mobility of both players", () => {
+    const analysis = analyzePosition(OthelloBoard.createEmpty(), 1);
+
+    expect(analysis.mobility).toEqual({ black: 4, white: 4 });
+  });
+
+  test("counts corners and edges separately", () => {
+    const board = createBoard("B......W\nW.......\n........\n...WB...\n...BW...\n........\n........\nB.....WB");
+
+    const analysis = analyzePosition(board, 1);
+
+    expect(analysis.corners).toEqual({ black: 3, white: 1 });
+    expect(analysis.edges).toEqual({ black: 0, white: 2 });
+  });
+
+  test("detects no stable discs in the starting position", () => {
+    expect(countStableDiscs(OthelloBoard.createEmpty())).toEqual({ black: 0, white: 0 });
+  });
+
+  test("stable discs grow from the corners along the edges", () => {
+    // Black owns the A1 corner with a run along row 1 and column A; H1 is white
+    const board = createBoard("BBBW...W\nBB......\nB.......\n...WB...\n...BW...\n........\n........\n........");
+
+    // A1, B1, C1 (row 1), A2, A3 (column A) and B2 (protected by its stable neighbors on all lines)
+    expect(countStableDiscs(board)).toEqual({ black: 6, white: 1 });
+  });
+
+  test("all discs of a full board are stable", () => {
+    const board = createBoard(Array.from({ length: 8 }, (_, row) => (row % 2 === 0 ? "BWBWBWBW" : "WBWBWBWB")).join("\n"));
+
+    expect(countStableDiscs(board)).toEqual({ black: 32, white: 32 });
+  });
+});
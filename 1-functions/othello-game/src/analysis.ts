@@ -0,0 +1,135 @@
+import { OthelloBoard, isInvalidBoardResult, type GameStatistics, type Player } from "./index.js";
+import { MinimaxStrategy, type EngineMove } from "./engine.js";
+
+export type PositionAnalysis = {
+  player: Player;
+  /**
+   * All valid moves of the player to move, scored by a minimax search and sorted best first.
+   */
+  rankedMoves: EngineMove[];
+  /**
+   * Number of valid moves of each player in this position.
+   */
+  mobility: GameStatistics;
+  corners: GameStatistics;
+  /**
+   * Stones on the edges, without the corners.
+   */
+  edges: GameStatistics;
+  /**
+   * Stones that can never be flipped again (see countStableDiscs).
+   */
+  stable: GameStatistics;
+};
+
+/**
+ * The four lines through a field: horizontal, vertical and both diagonals.
+ */
+const AXES: ReadonlyArray<[number, number]> = [
+  [0, 1],
+  [1, 0],
+  [1, 1],
+  [1, -1],
+];
+
+/**
+ * Analyzes the position for the player to move. The moves are ranked with a minimax search
+ * of the given depth.
+ */
+export function analyzePosition(board: OthelloBoard, depth = 4): PositionAnalysis {
+  const size = board.getSize();
+  const corners: GameStatistics = { black: 0, white: 0 };
+  const edges: GameStatistics = { black: 0, white: 0 };
+
+  for (let row = 0; row < size; row += 1) {
+    for (let col = 0; col < size; col += 1) {
+      const cell = board.getCell({ row, col });
+      const onRowEdge = row === 0 || row === size - 1;
+      const onColEdge = col === 0 || col === size - 1;
+      if (cell === null || (!onRowEdge && !onColEdge)) {
+        continue;
+      }
+      const counts = onRowEdge && onColEdge ? corners : edges;
+      counts[cell === "B" ? "black" : "white"] += 1;
+    }
+  }
+
+  return {
+    player: board.getCurrentPlayer(),
+    rankedMoves: new MinimaxStrategy(depth).rankMoves(board),
+    mobility: { black: countMoves(board, "B"), white: countMoves(board, "W") },
+    corners,
+    edges,
+    stable: countStableDiscs(board),
+  };
+}
+
+/**
+ * Counts the stones that can never be flipped again. A stone is stable if, on each of the four lines
+ * through it, it cannot be enclosed: the line is completely filled, or a neighbor on the line is the
+ * edge of the board or a stable stone of the same color. The stable stones grow from the corners;
+ * the count is a lower bound, some stones that are stable in fact may not be detected.
+ */
+export function countStableDiscs(board: OthelloBoard): GameStatistics {
+  const size = board.getSize();
+  const stable = Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  const isInside = (row: number, col: number) => row >= 0 && row < size && col >= 0 && col < size;
+
+  const isLineFull = (row: number, col: number, dRow: number, dCol: number): boolean => {
+    for (const sign of [1, -1]) {
+      for (let r = row + sign * dRow, c = col + sign * dCol; isInside(r, c); r += sign * dRow, c += sign * dCol) {
+        if (board.getCell({ row: r, col: c }) === null) {
+          return false;
+        }
+      }
+    }
+    return true;
+  };
+
+  const isProtected = (row: number, col: number, player: Player): boolean => {
+    return AXES.every(
+      ([dRow, dCol]) =>
+        [1, -1].some((sign) => {
+          const r = row + sign * dRow;
+          const c = col + sign * dCol;
+          return !isInside(r, c) || (stable[r]![c]! && board.getCell({ row: r, col: c }) === player);
+        }) || isLineFull(row, col, dRow, dCol),
+    );
+  };
+
+  // Stable stones make their neighbors stable, repeat until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let row = 0; row < size; row += 1) {
+      for (let col = 0; col < size; col += 1) {
+        const cell = board.getCell({ row, col });
+        if (cell !== null && !stable[row]![col] && isProtected(row, col, cell)) {
+          stable[row]![col] = true;
+          changed = true;
+        }
+      }
+    }
+  }
+
+  const counts: GameStatistics = { black: 0, white: 0 };
+  for (let row = 0; row < size; row += 1) {
+    for (let col = 0; col < size; col += 1) {
+      if (stable[row]![col]) {
+        counts[board.getCell({ row, col }) === "B" ? "black" : "white"] += 1;
+      }
+    }
+  }
+  return counts;
+}
+
+/**
+ * Number of valid moves the player would have if it were their turn.
+ */
+function countMoves(board: OthelloBoard, player: Player): number {
+  if (board.getCurrentPlayer() === player) {
+    return board.getValidMoves().moves.length;
+  }
+  const opponentToMove = OthelloBoard.fromString(board.toString(), player, board.getOptions());
+  return isInvalidBoardResult(opponentToMove) ? 0 : opponentToMove.getValidMoves().moves.length;
+}
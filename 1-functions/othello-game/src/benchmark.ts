@@ -0,0 +1,60 @@
+import { OthelloBoard, createSeededRandom, createStrategy, type BoardRepresentation } from "./index.js";
+
+/**
+ * Compares the speed of the board representations: plain move generation on a midgame position,
+ * random self-play games and a fixed-depth minimax search.
+ *
+ * Run with `npm run benchmark`.
+ */
+
+const MOVE_GENERATIONS = 20_000;
+const GAMES = 200;
+const SEARCH_DEPTH = 5;
+
+function measure(action: () => void): number {
+  const start = performance.now();
+  action();
+  return performance.now() - start;
+}
+
+function generateMoves(representation: BoardRepresentation): void {
+  const board = OthelloBoard.createEmpty({ representation });
+  for (const move of ["F5", "F6", "E6", "F4", "E3", "C5", "C4", "D3", "C3", "E2"]) {
+    board.tryApplyMove(move);
+  }
+
+  for (let iteration = 0; iteration < MOVE_GENERATIONS; iteration += 1) {
+    board.getValidMoves();
+  }
+}
+
+function playRandomGames(representation: BoardRepresentation): void {
+  const random = createSeededRandom(42);
+  for (let game = 0; game < GAMES; game += 1) {
+    const board = OthelloBoard.createEmpty({ representation });
+    while (!board.isGameOver()) {
+      const moves = board.getValidMoves().moves;
+      const move = moves[Math.floor(random() * moves.length)];
+      if (move) {
+        board.tryApplyMove(move.position);
+      } else {
+        board.pass();
+      }
+    }
+  }
+}
+
+function search(representation: BoardRepresentation): void {
+  const board = OthelloBoard.createEmpty({ representation });
+  createStrategy({ strategy: "minimax", depth: SEARCH_DEPTH, random: createSeededRandom(42) }).chooseMove(board);
+}
+
+const representations: BoardRepresentation[] = ["array", "bitboard"];
+const results = representations.map((representation) => ({
+  representation,
+  [`${MOVE_GENERATIONS} move generations (ms)`]: Math.round(measure(() => generateMoves(representation))),
+  [`${GAMES} random games (ms)`]: Math.round(measure(() => playRandomGames(representation))),
+  [`minimax depth ${SEARCH_DEPTH} (ms)`]: Math.round(measure(() => search(representation))),
+}));
+
+console.table(results);
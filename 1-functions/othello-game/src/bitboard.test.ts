@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, createSeededRandom, type BoardOptions, type Move, type Position } from "./index.js";
+
+function sortPositions(positions: Position[]): Position[] {
+  return [...positions].sort((a, b) => a.row - b.row || a.col - b.col);
+}
+
+function normalizeMoves(moves: Move[]): Move[] {
+  return moves.map((move) => ({ position: move.position, flippedPositions: sortPositions(move.flippedPositions) }));
+}
+
+function expectIdenticalRandomGame(seed: number, options: BoardOptions = {}): void {
+  const random = createSeededRandom(seed);
+  const board = OthelloBoard.createEmpty({ ...options, representation: "bitboard" });
+  const reference = OthelloBoard.createEmpty({ ...options, representation: "array" });
+
+  while (!reference.isGameOver()) {
+    expect(board.toString()).toBe(reference.toString());
+    expect(board.getGameStatus()).toEqual(reference.getGameStatus());
+
+    const moves = board.getValidMoves().moves;
+    expect(normalizeMoves(moves)).toEqual(normalizeMoves(reference.getValidMoves().moves));
+
+    const move = moves[Math.floor(random() * moves.length)];
+    if (move) {
+      expect(board.tryApplyMove(move.position)).toMatchObject({ position: move.position });
+      expect(reference.tryApplyMove(move.position)).toMatchObject({ position: move.position });
+    } else {
+      expect(board.pass()).toBe(true);
+      expect(reference.pass()).toBe(true);
+    }
+  }
+
+  expect(board.isGameOver()).toBe(true);
+  expect(board.getWinner()).toBe(reference.getWinner());
+
+  while (board.undo()) {
+    reference.undo();
+    expect(board.toString()).toBe(reference.toString());
+  }
+  expect(board.toString()).toBe(OthelloBoard.createEmpty(options).toString());
+}
+
+describe("bitboard representation", () => {
+  test("creates the standard starting position", () => {
+    const board = OthelloBoard.createEmpty({ representation: "bitboard" });
+    expect(board.toString()).toBe(OthelloBoard.createEmpty({ representation: "array" }).toString());
+  });
+
+  test("ignores fields off the board", () => {
+    const board = OthelloBoard.createEmpty({ representation: "bitboard" });
+    expect(board.getCell({ row: 3, col: 8 })).toBeNull();
+    expect(board.tryApplyMove({ row: 2, col: 8 })).toMatchObject({ reason: "off-board" });
+    expect(board.tryApplyMove({ row: -1, col: 3 })).toMatchObject({ reason: "off-board" });
+  });
+
+  test("does not wrap captures around the board edges", () => {
+    const boardString = "......BW\nW.......\n........\n........\n........\n........\n........\n........";
+    const board = OthelloBoard.fromString(boardString, "B", { representation: "bitboard" });
+    const reference = OthelloBoard.fromString(boardString, "B", { representation: "array" });
+
+    if (board instanceof OthelloBoard && reference instanceof OthelloBoard) {
+      expect(board.getValidMoves().moves).toEqual(reference.getValidMoves().moves);
+      expect(board.getValidMoves().moves.length).toBe(0);
+    }
+  });
+
+  test.each([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])("plays random game %i identically to the array representation", (seed) => {
+    expectIdenticalRandomGame(seed);
+  });
+
+  test.each([4, 6])("plays random games on boards of size %i identically to the array representation", (size) => {
+    for (const seed of [1, 2, 3]) {
+      expectIdenticalRandomGame(seed, { size });
+      expectIdenticalRandomGame(seed, { size, startLayout: "parallel" });
+    }
+  });
+});
@@ -0,0 +1,281 @@
+import type { GameStatistics, Move, Player, Position } from "./index.js";
+import type { BoardState } from "./board-state.js";
+
+/*
+ * A 64-bit mask is stored as two 32-bit integers: `lo` holds the fields with index 0-31, `hi` those with index 32-63.
+ * The index of a field is row * size + col, so A1 is bit 0 of `lo`. Boards up to 8x8 fit into one mask.
+ * Bit operations on plain numbers are much faster than on BigInts, which allocate on every operation.
+ */
+
+/**
+ * Largest board size supported by the bitboard representation.
+ */
+export const MAX_BITBOARD_SIZE = 8;
+
+type Direction = {
+  /**
+   * Positive values shift towards higher indexes (down/right), negative ones towards lower indexes.
+   */
+  amount: number;
+  /**
+   * Shifting towards a neighbouring column wraps around into the next/previous row, and shifting down
+   * moves bits beyond the last field; the mask cuts off these bits.
+   */
+  maskLo: number;
+  maskHi: number;
+};
+
+type Geometry = {
+  size: number;
+  validLo: number;
+  validHi: number;
+  directions: Direction[];
+};
+
+const geometries = new Map<number, Geometry>();
+
+function maskOf(size: number, predicate: (row: number, col: number) => boolean): [lo: number, hi: number] {
+  let lo = 0;
+  let hi = 0;
+  for (let row = 0; row < size; row += 1) {
+    for (let col = 0; col < size; col += 1) {
+      if (predicate(row, col)) {
+        const index = row * size + col;
+        if (index < 32) {
+          lo |= 1 << index;
+        } else {
+          hi |= 1 << (index - 32);
+        }
+      }
+    }
+  }
+  return [lo, hi];
+}
+
+function getGeometry(size: number): Geometry {
+  let geometry = geometries.get(size);
+  if (!geometry) {
+    const [validLo, validHi] = maskOf(size, () => true);
+    const [notFirstLo, notFirstHi] = maskOf(size, (_, col) => col !== 0);
+    const [notLastLo, notLastHi] = maskOf(size, (_, col) => col !== size - 1);
+    const notFirst = { maskLo: notFirstLo, maskHi: notFirstHi };
+    const notLast = { maskLo: notLastLo, maskHi: notLastHi };
+    const all = { maskLo: validLo, maskHi: validHi };
+
+    geometry = {
+      size,
+      validLo,
+      validHi,
+      directions: [
+        { amount: -(size + 1), ...notLast }, // up left
+        { amount: -size, ...all }, // up
+        { amount: -(size - 1), ...notFirst }, // up right
+        { amount: -1, ...notLast }, // left
+        { amount: 1, ...notFirst }, // right
+        { amount: size - 1, ...notLast }, // down left
+        { amount: size, ...all }, // down
+        { amount: size + 1, ...notFirst }, // down right
+      ],
+    };
+    geometries.set(size, geometry);
+  }
+  return geometry;
+}
+
+// Result registers of shift(); avoids allocating an object for every 64-bit operation in the hot loops
+let shiftedLo = 0;
+let shiftedHi = 0;
+
+/**
+ * Shifts the 64-bit mask one step in the given direction and stores the result in shiftedLo/shiftedHi.
+ */
+function shift(lo: number, hi: number, direction: Direction): void {
+  const amount = direction.amount;
+  if (amount > 0) {
+    shiftedHi = ((hi << amount) | (lo >>> (32 - amount))) & direction.maskHi;
+    shiftedLo = (lo << amount) & direction.maskLo;
+  } else {
+    shiftedLo = ((lo >>> -amount) | (hi << (32 + amount))) & direction.maskLo;
+    shiftedHi = (hi >>> -amount) & direction.maskHi;
+  }
+}
+
+function popCount(bits: number): number {
+  bits -= (bits >>> 1) & 0x55555555;
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+/**
+ * Representation with one 64-bit mask per player. Moves are generated for all fields at once
+ * by shifting the masks in the eight directions. Supports boards up to MAX_BITBOARD_SIZE.
+ */
+export class BitboardState implements BoardState {
+  private blackLo = 0;
+  private blackHi = 0;
+  private whiteLo = 0;
+  private whiteHi = 0;
+
+  private constructor(private readonly geometry: Geometry) {}
+
+  public static fromCells(cells: (Player | null)[][]): BitboardState {
+    const state = new BitboardState(getGeometry(cells.length));
+    cells.forEach((row, rowIndex) => row.forEach((cell, colIndex) => state.setCell(rowIndex, colIndex, cell)));
+    return state;
+  }
+
+  public getCell(row: number, col: number): Player | null {
+    if (!this.isOnBoard(row, col)) {
+      return null;
+    }
+
+    const index = row * this.geometry.size + col;
+    const [black, white, bit] =
+      index < 32 ? [this.blackLo, this.whiteLo, 1 << index] : [this.blackHi, this.whiteHi, 1 << (index - 32)];
+    if ((black & bit) !== 0) {
+      return "B";
+    }
+    return (white & bit) !== 0 ? "W" : null;
+  }
+
+  public setCell(row: number, col: number, cell: Player | null): void {
+    if (!this.isOnBoard(row, col)) {
+      return;
+    }
+
+    const index = row * this.geometry.size + col;
+    if (index < 32) {
+      const bit = 1 << index;
+      this.blackLo = cell === "B" ? this.blackLo | bit : this.blackLo & ~bit;
+      this.whiteLo = cell === "W" ? this.whiteLo | bit : this.whiteLo & ~bit;
+    } else {
+      const bit = 1 << (index - 32);
+      this.blackHi = cell === "B" ? this.blackHi | bit : this.blackHi & ~bit;
+      this.whiteHi = cell === "W" ? this.whiteHi | bit : this.whiteHi & ~bit;
+    }
+  }
+
+  public getFlips(position: Position, player: Player): Position[] | null {
+    if (!this.isOnBoard(position.row, position.col) || this.getCell(position.row, position.col) !== null) {
+      return null;
+    }
+
+    const flips = this.flipsOf(position.row * this.geometry.size + position.col, player);
+    return flips.length > 0 ? flips : null;
+  }
+
+  public findMoves(player: Player): Move[] {
+    const [movesLo, movesHi] = this.movesOf(player);
+    return this.toPositions(movesLo, movesHi).map((position) => ({
+      position,
+      flippedPositions: this.flipsOf(position.row * this.geometry.size + position.col, player),
+    }));
+  }
+
+  public hasMoves(player: Player): boolean {
+    const [movesLo, movesHi] = this.movesOf(player);
+    return movesLo !== 0 || movesHi !== 0;
+  }
+
+  public count(): GameStatistics {
+    return {
+      black: popCount(this.blackLo) + popCount(this.blackHi),
+      white: popCount(this.whiteLo) + popCount(this.whiteHi),
+    };
+  }
+
+  public clone(): BitboardState {
+    const copy = new BitboardState(this.geometry);
+    copy.blackLo = this.blackLo;
+    copy.blackHi = this.blackHi;
+    copy.whiteLo = this.whiteLo;
+    copy.whiteHi = this.whiteHi;
+    return copy;
+  }
+
+  private masksOf(player: Player): [ownLo: number, ownHi: number, opponentLo: number, opponentHi: number] {
+    return player === "B"
+      ? [this.blackLo, this.blackHi, this.whiteLo, this.whiteHi]
+      : [this.whiteLo, this.whiteHi, this.blackLo, this.blackHi];
+  }
+
+  /**
+   * Mask of all empty fields where the player can capture at least one stone.
+   */
+  private movesOf(player: Player): [lo: number, hi: number] {
+    const [ownLo, ownHi, opponentLo, opponentHi] = this.masksOf(player);
+    const emptyLo = ~(ownLo | opponentLo) & this.geometry.validLo;
+    const emptyHi = ~(ownHi | opponentHi) & this.geometry.validHi;
+    let movesLo = 0;
+    let movesHi = 0;
+
+    for (const direction of this.geometry.directions) {
+      // Opponent stones in a contiguous line starting next to one of our stones
+      shift(ownLo, ownHi, direction);
+      let lineLo = shiftedLo & opponentLo;
+      let lineHi = shiftedHi & opponentHi;
+      for (let step = 2; step < this.geometry.size - 1; step += 1) {
+        shift(lineLo, lineHi, direction);
+        lineLo |= shiftedLo & opponentLo;
+        lineHi |= shiftedHi & opponentHi;
+      }
+
+      shift(lineLo, lineHi, direction);
+      movesLo |= shiftedLo & emptyLo;
+      movesHi |= shiftedHi & emptyHi;
+    }
+
+    return [movesLo, movesHi];
+  }
+
+  /**
+   * Opponent stones flipped by placing a stone of the player on the (empty) field with the given index.
+   */
+  private flipsOf(index: number, player: Player): Position[] {
+    const [ownLo, ownHi, opponentLo, opponentHi] = this.masksOf(player);
+    let flipsLo = 0;
+    let flipsHi = 0;
+
+    for (const direction of this.geometry.directions) {
+      let lineLo = 0;
+      let lineHi = 0;
+      shift(index < 32 ? 1 << index : 0, index < 32 ? 0 : 1 << (index - 32), direction);
+      while ((shiftedLo & opponentLo) !== 0 || (shiftedHi & opponentHi) !== 0) {
+        lineLo |= shiftedLo;
+        lineHi |= shiftedHi;
+        shift(shiftedLo, shiftedHi, direction);
+      }
+
+      if ((shiftedLo & ownLo) !== 0 || (shiftedHi & ownHi) !== 0) {
+        flipsLo |= lineLo;
+        flipsHi |= lineHi;
+      }
+    }
+
+    return this.toPositions(flipsLo, flipsHi);
+  }
+
+  /**
+   * Converts a mask into positions in row-major order.
+   */
+  private toPositions(lo: number, hi: number): Position[] {
+    const positions: Position[] = [];
+    this.addPositions(positions, lo, 0);
+    this.addPositions(positions, hi, 32);
+    return positions;
+  }
+
+  private addPositions(positions: Position[], bits: number, baseIndex: number): void {
+    const size = this.geometry.size;
+    while (bits !== 0) {
+      const lowest = bits & -bits;
+      const index = baseIndex + 31 - Math.clz32(lowest);
+      positions.push({ row: Math.floor(index / size), col: index % size });
+      bits ^= lowest;
+    }
+  }
+
+  private isOnBoard(row: number, col: number): boolean {
+    return row >= 0 && row < this.geometry.size && col >= 0 && col < this.geometry.size;
+  }
+}
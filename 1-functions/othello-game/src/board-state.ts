@@ -0,0 +1,144 @@
+import type { GameStatistics, Move, Player, Position } from "./index.js";
+
+/**
+ * Internal storage of the stones on the board together with the move generation rules.
+ * OthelloBoard keeps the game flow (player to move, history); implementations only differ in speed.
+ */
+export interface BoardState {
+  getCell(row: number, col: number): Player | null;
+  setCell(row: number, col: number, cell: Player | null): void;
+  /**
+   * Returns the positions flipped by a move of the player at the given position,
+   * or null if the move is invalid (off board, occupied, or no flips).
+   */
+  getFlips(position: Position, player: Player): Position[] | null;
+  /**
+   * Returns all valid moves of the player in row-major order.
+   */
+  findMoves(player: Player): Move[];
+  hasMoves(player: Player): boolean;
+  count(): GameStatistics;
+  clone(): BoardState;
+}
+
+/**
+ * Straightforward representation with one character per field ("B", "W" or "."),
+ * walking the eight directions from each field to generate moves.
+ */
+export class ArrayBoardState implements BoardState {
+  private static readonly DIRECTIONS: ReadonlyArray<[number, number]> = [
+    [-1, -1],
+    [-1, 0],
+    [-1, 1],
+    [0, -1],
+    [0, 1],
+    [1, -1],
+    [1, 0],
+    [1, 1],
+  ];
+
+  private readonly size: number;
+
+  constructor(private readonly board: string[][]) {
+    this.size = board.length;
+  }
+
+  public static fromCells(cells: (Player | null)[][]): ArrayBoardState {
+    return new ArrayBoardState(cells.map((row) => row.map((cell) => cell ?? ".")));
+  }
+
+  public getCell(row: number, col: number): Player | null {
+    const cell = this.board[row]?.[col];
+    return cell === "B" || cell === "W" ? cell : null;
+  }
+
+  public setCell(row: number, col: number, cell: Player | null): void {
+    const boardRow = this.board[row];
+    if (boardRow) {
+      boardRow[col] = cell ?? ".";
+    }
+  }
+
+  public getFlips(position: Position, player: Player): Position[] | null {
+    // Check if position is on board
+    if (!this.isOnBoard(position.row, position.col)) {
+      return null;
+    }
+
+    // Check if position is empty
+    const currentCell = this.board[position.row]?.[position.col];
+    if (currentCell !== ".") {
+      return null;
+    }
+
+    const enemy: Player = player === "B" ? "W" : "B";
+    const flippedPositions: Position[] = [];
+
+    for (const [deltaRow, deltaCol] of ArrayBoardState.DIRECTIONS) {
+      let r = position.row + deltaRow;
+      let c = position.col + deltaCol;
+      const path: Position[] = [];
+
+      while (this.isOnBoard(r, c) && this.board[r]?.[c] === enemy) {
+        path.push({ row: r, col: c });
+        r += deltaRow;
+        c += deltaCol;
+      }
+
+      if (path.length > 0 && this.isOnBoard(r, c) && this.board[r]?.[c] === player) {
+        flippedPositions.push(...path);
+      }
+    }
+
+    return flippedPositions.length > 0 ? flippedPositions : null;
+  }
+
+  public findMoves(player: Player): Move[] {
+    const moves: Move[] = [];
+
+    for (let row = 0; row < this.size; row += 1) {
+      for (let col = 0; col < this.size; col += 1) {
+        const flippedPositions = this.getFlips({ row, col }, player);
+
+        if (flippedPositions !== null) {
+          moves.push({
+            position: { row, col },
+            flippedPositions,
+          });
+        }
+      }
+    }
+
+    return moves;
+  }
+
+  public hasMoves(player: Player): boolean {
+    return this.findMoves(player).length > 0;
+  }
+
+  public count(): GameStatistics {
+    let black = 0;
+    let white = 0;
+
+    for (let row = 0; row < this.size; row += 1) {
+      for (let col = 0; col < this.size; col += 1) {
+        const cell = this.board[row]?.[col];
+        if (cell === "B") {
+          black += 1;
+        } else if (cell === "W") {
+          white += 1;
+        }
+      }
+    }
+
+    return { black, white };
+  }
+
+  public clone(): ArrayBoardState {
+    return new ArrayBoardState(this.board.map((row) => [...row]));
+  }
+
+  private isOnBoard(row: number, col: number): boolean {
+    return row >= 0 && row < this.size && col >= 0 && col < this.size;
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "vitest";
+import { GameClock, allocateMoveTime, formatClockTime, formatTimeControl, parseTimeControl } from "./clock.js";
+
+/**
+ * A clock for 1 minute with 2 seconds increment and a fake time that the tests advance by hand.
+ */
+function createClock() {
+  const time = { now: 0 };
+  const clock = new GameClock({ baseMs: 60_000, incrementMs: 2000 }, () => time.now);
+  return { clock, time };
+}
+
+describe("time controls", () => {
+  test("parses minutes and increment in seconds", () => {
+    expect(parseTimeControl("5+3")).toEqual({ baseMs: 300_000, incrementMs: 3000 });
+    expect(parseTimeControl("0.5+1")).toEqual({ baseMs: 30_000, incrementMs: 1000 });
+    expect(parseTimeControl("10")).toEqual({ baseMs: 600_000, incrementMs: 0 });
+  });
+
+  test("rejects invalid time controls", () => {
+    expect(parseTimeControl("")).toBeNull();
+    expect(parseTimeControl("5+")).toBeNull();
+    expect(parseTimeControl("abc")).toBeNull();
+    expect(parseTimeControl("0+5")).toBeNull();
+  });
+
+  test("formats time controls and clock times", () => {
+    expect(formatTimeControl({ baseMs: 300_000, incrementMs: 3000 })).toBe("5+3");
+    expect(formatClockTime(299_400)).toBe("4:59");
+    expect(formatClockTime(3_900_000)).toBe("1:05:00");
+    expect(formatClockTime(9_470)).toBe("0:09.4");
+    expect(formatClockTime(-500)).toBe("0:00.0");
+  });
+
+  test("allocates a share of the remaining time and never more than half of it", () => {
+    const timeControl = { baseMs: 60_000, incrementMs: 1000 };
+    expect(allocateMoveTime(60_000, timeControl, 60)).toBe(2800);
+    expect(allocateMoveTime(1000, timeControl, 2)).toBe(500);
+  });
+});
+
+describe("GameClock", () => {
+  test("runs only the clock of the player to move and adds the increment", () => {
+    const { clock, time } = createClock();
+    clock.start("B");
+    time.now = 10_000;
+    clock.press();
+    time.now = 15_000;
+
+    expect(clock.getRunningPlayer()).toBe("W");
+    expect(clock.getRemaining("B")).toBe(52_000);
+    expect(clock.getRemaining("W")).toBe(55_000);
+    expect(clock.getTimeUsed("B")).toBe(10_000);
+  });
+
+  test("does not count paused time", () => {
+    const { clock, time } = createClock();
+    clock.start("B");
+    time.now = 5000;
+    clock.pause();
+    time.now = 50_000;
+    expect(clock.isPaused()).toBe(true);
+    expect(clock.getTimeToFlag()).toBeNull();
+
+    clock.resume();
+    time.now = 51_000;
+    expect(clock.getRemaining("B")).toBe(54_000);
+  });
+
+  test("detects a flag fall", () => {
+    const { clock, time } = createClock();
+    clock.start("W");
+    time.now = 59_000;
+    expect(clock.getFlaggedPlayer()).toBeNull();
+    expect(clock.getTimeToFlag()).toBe(1000);
+
+    time.now = 60_000;
+    expect(clock.getFlaggedPlayer()).toBe("W");
+  });
+
+  test("only measures the thinking time without a time control", () => {
+    const time = { now: 0 };
+    const clock = new GameClock(null, () => time.now);
+    clock.start("B");
+    time.now = 1_000_000;
+
+    expect(clock.getRemaining("B")).toBeNull();
+    expect(clock.getFlaggedPlayer()).toBeNull();
+    expect(clock.getTimeUsed("B")).toBe(1_000_000);
+  });
+});
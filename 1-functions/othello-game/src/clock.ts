@@ -0,0 +1,182 @@
+import type { Player } from "./index.js";
+
+/**
+ * Time control of a timed game: every player starts with baseMs and gets incrementMs added
+ * after each of their moves (Fischer increment).
+ */
+export type TimeControl = {
+  baseMs: number;
+  incrementMs: number;
+};
+
+/**
+ * Parses a time control in the usual "minutes+seconds" notation, e.g. "5+3" (5 minutes, 3 seconds
+ * increment), "0.5+1" or "10" (no increment). Returns null if the text is not a valid time control.
+ */
+export function parseTimeControl(text: string): TimeControl | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?:\+\s*(\d+(?:\.\d+)?))?\s*$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const baseMs = Math.round(Number(match[1]) * 60_000);
+  const incrementMs = Math.round(Number(match[2] ?? 0) * 1000);
+  return baseMs > 0 ? { baseMs, incrementMs } : null;
+}
+
+/**
+ * Formats a time control as "minutes+seconds", the inverse of parseTimeControl.
+ */
+export function formatTimeControl(timeControl: TimeControl): string {
+  return `${timeControl.baseMs / 60_000}+${timeControl.incrementMs / 1000}`;
+}
+
+/**
+ * Formats a remaining time like a chess clock: "1:05:00", "4:59", and with tenths below 10 seconds ("0:09.4").
+ */
+export function formatClockTime(ms: number): string {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10_000) {
+    return `0:0${(Math.floor(clamped / 100) / 10).toFixed(1)}`;
+  }
+  const totalSeconds = Math.floor(clamped / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * How long a computer player may think about its next move: an even share of the remaining time
+ * for its remaining moves plus most of the increment, so that it never runs out of time.
+ */
+export function allocateMoveTime(remainingMs: number, timeControl: TimeControl, emptyFields: number): number {
+  const movesLeft = Math.max(1, Math.ceil(emptyFields / 2));
+  const budget = remainingMs / movesLeft + timeControl.incrementMs * 0.8;
+  return Math.max(1, Math.floor(Math.min(budget, remainingMs / 2)));
+}
+
+/**
+ * Chess clock for two players. Only the clock of the player to move runs; press() ends the turn,
+ * adds the increment and starts the opponent's clock. Without a time control, the clock only
+ * measures the thinking time of the players.
+ *
+ * The clock has no timers: it reads the time whenever it is asked. Callers that want to react to
+ * a flag fall right away can wait getTimeToFlag() milliseconds and then check getFlaggedPlayer().
+ */
+export class GameClock {
+  private readonly used: Record<Player, number> = { B: 0, W: 0 };
+  private readonly increments: Record<Player, number> = { B: 0, W: 0 };
+  private running: Player | null = null;
+  /**
+   * Start of the current stretch of the running clock, null while the clock is stopped or paused.
+   */
+  private startedAt: number | null = null;
+
+  constructor(
+    public readonly timeControl: TimeControl | null = null,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Starts the clock of the given player (or switches to it) without adding an increment.
+   */
+  public start(player: Player): void {
+    this.stopRunningClock();
+    this.running = player;
+    this.startedAt = this.now();
+  }
+
+  /**
+   * Ends the turn of the running player: adds the increment to their time and starts the opponent's clock.
+   * Does nothing if no clock is running. A paused clock stays paused, with the opponent to move.
+   */
+  public press(): void {
+    if (this.running === null) {
+      return;
+    }
+    const player = this.running;
+    const paused = this.startedAt === null;
+    this.stopRunningClock();
+    this.increments[player] += this.timeControl?.incrementMs ?? 0;
+    this.running = player === "B" ? "W" : "B";
+    this.startedAt = paused ? null : this.now();
+  }
+
+  /**
+   * Stops both clocks, e.g. at the end of the game.
+   */
+  public stop(): void {
+    this.stopRunningClock();
+    this.running = null;
+  }
+
+  public pause(): void {
+    this.stopRunningClock();
+  }
+
+  public resume(): void {
+    if (this.running !== null && this.startedAt === null) {
+      this.startedAt = this.now();
+    }
+  }
+
+  public isPaused(): boolean {
+    return this.running !== null && this.startedAt === null;
+  }
+
+  /**
+   * The player whose clock is running (or paused), null before the start and after stop().
+   */
+  public getRunningPlayer(): Player | null {
+    return this.running;
+  }
+
+  /**
+   * Time the player has spent on their moves in milliseconds, including the running turn.
+   */
+  public getTimeUsed(player: Player): number {
+    const running = player === this.running && this.startedAt !== null ? this.now() - this.startedAt : 0;
+    return this.used[player] + running;
+  }
+
+  /**
+   * Time left on the player's clock in milliseconds (negative after a flag fall), or null without a time control.
+   */
+  public getRemaining(player: Player): number | null {
+    if (!this.timeControl) {
+      return null;
+    }
+    return this.timeControl.baseMs + this.increments[player] - this.getTimeUsed(player);
+  }
+
+  /**
+   * The player who has run out of time, or null.
+   */
+  public getFlaggedPlayer(): Player | null {
+    for (const player of ["B", "W"] as const) {
+      const remaining = this.getRemaining(player);
+      if (remaining !== null && remaining <= 0) {
+        return player;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Milliseconds until the running clock runs out, or null if no clock with a time control is running.
+   */
+  public getTimeToFlag(): number | null {
+    if (this.running === null || this.startedAt === null) {
+      return null;
+    }
+    const remaining = this.getRemaining(this.running);
+    return remaining === null ? null : Math.max(0, remaining);
+  }
+
+  private stopRunningClock(): void {
+    if (this.running !== null && this.startedAt !== null) {
+      this.used[this.running] += this.now() - this.startedAt;
+    }
+    this.startedAt = null;
+  }
+}
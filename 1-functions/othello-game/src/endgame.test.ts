@@ -0,0 +1,94 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, chooseMove, createSeededRandom, isInvalidBoardResult } from "./index.js";
+import { solveEndgame } from "./endgame.js";
+
+/**
+ * Plays random moves from the starting position until the given number of fields is empty.
+ */
+function playUntil(empties: number, seed: number, size = 6): OthelloBoard {
+  const board = OthelloBoard.createEmpty({ size });
+  const random = createSeededRandom(seed);
+  while (!board.isGameOver()) {
+    const { black, white } = board.getGameStatistics();
+    if (size * size - black - white <= empties) {
+      break;
+    }
+    const move = chooseMove(board, { strategy: "random", random });
+    if (move) {
+      board.tryApplyMove(move.position);
+    } else {
+      board.pass();
+    }
+  }
+  return board;
+}
+
+/**
+ * Plain minimax over all moves, without pruning or move ordering.
+ */
+function bruteForce(board: OthelloBoard): number {
+  const moves = board.getValidMoves().moves;
+  if (moves.length === 0) {
+    if (!board.pass()) {
+      const { black, white } = board.getGameStatistics();
+      return board.getCurrentPlayer() === "B" ? black - white : white - black;
+    }
+    const score = -bruteForce(board);
+    board.undo();
+    return score;
+  }
+
+  let best = -Infinity;
+  for (const move of moves) {
+    board.tryApplyMove(move.position);
+    best = Math.max(best, -bruteForce(board));
+    board.undo();
+  }
+  return best;
+}
+
+function fromString(rows: string[], player: "B" | "W" = "B"): OthelloBoard {
+  const board = OthelloBoard.fromString(rows.join("\n"), player, { size: rows.length });
+  if (isInvalidBoardResult(board)) {
+    throw new Error(board.error);
+  }
+  return board;
+}
+
+describe("endgame solver", () => {
+  test("finds the exact result of random endgames", () => {
+    for (let seed = 1; seed <= 5; seed++) {
+      const board = playUntil(9, seed);
+      const result = solveEndgame(board);
+      expect(result?.discDifference).toBe(bruteForce(board.clone()));
+
+      // The best move keeps the result
+      board.tryApplyMove(result!.position!);
+      expect(-solveEndgame(board)!.discDifference).toBe(result?.discDifference);
+    }
+  });
+
+  test("solves endgames on the standard board", () => {
+    const board = playUntil(10, 7, 8);
+    const result = solveEndgame(board);
+    expect(result?.position).not.toBeNull();
+
+    board.tryApplyMove(result!.position!);
+    expect(-solveEndgame(board)!.discDifference).toBe(result?.discDifference);
+  });
+
+  test("handles finished games and passes", () => {
+    const finished = fromString(["BBBB", "BBBB", "BBWW", "WWWW"]);
+    expect(solveEndgame(finished)).toMatchObject({ position: null, discDifference: 4 });
+
+    // Black cannot move, White takes the last black disc with D4
+    const pass = fromString(["WWWW", "WWWW", "WWWB", "WW.."]);
+    expect(pass.getValidMoves().moves).toEqual([]);
+    expect(solveEndgame(pass)).toMatchObject({ position: null, discDifference: -15 });
+  });
+
+  test("refuses positions with too many empty fields", () => {
+    expect(solveEndgame(OthelloBoard.createEmpty())).toBeNull();
+    expect(solveEndgame(playUntil(12, 1), 10)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+import type { OthelloBoard, Position } from "./index.js";
+
+/**
+ * Largest number of empty fields solveEndgame accepts by default. Each further empty field
+ * multiplies the search time by about three.
+ */
+export const MAX_ENDGAME_EMPTIES = 14;
+
+/**
+ * Below this number of empty fields, the moves are searched in board order. Above it, the moves that
+ * leave the opponent the fewest replies are searched first (fastest-first), which saves more time than
+ * it costs.
+ */
+const FASTEST_FIRST_EMPTIES = 6;
+
+export type EndgameResult = {
+  /**
+   * Best move of the player to move, null if the player has to pass or the game is over.
+   */
+  position: Position | null;
+  /**
+   * Final disc difference (own discs minus the opponent's) with perfect play of both players,
+   * from the perspective of the player to move.
+   */
+  discDifference: number;
+  emptyFields: number;
+  /**
+   * Number of searched positions.
+   */
+  nodes: number;
+};
+
+/**
+ * Solves the endgame exactly: searches all moves until the end of the game and returns the best move
+ * with the final disc difference. Returns null if more than maxEmpties fields are empty.
+ */
+export function solveEndgame(board: OthelloBoard, maxEmpties = MAX_ENDGAME_EMPTIES): EndgameResult | null {
+  const empties = countEmpties(board);
+  if (empties > maxEmpties) {
+    return null;
+  }
+
+  const root = board.clone();
+  const solver = { nodes: 1 };
+  const moves = orderMoves(root, empties);
+  if (moves.length === 0) {
+    const discDifference = root.pass() ? -search(root, empties, -Infinity, Infinity, solver) : getDiscDifference(root);
+    return { position: null, discDifference, emptyFields: empties, nodes: solver.nodes };
+  }
+
+  let best: Position | null = null;
+  let alpha = -Infinity;
+  for (const position of moves) {
+    root.tryApplyMove(position);
+    const score = -search(root, empties - 1, -Infinity, -alpha, solver);
+    root.undo();
+    if (score > alpha) {
+      alpha = score;
+      best = position;
+    }
+  }
+  return { position: best, discDifference: alpha, emptyFields: empties, nodes: solver.nodes };
+}
+
+/**
+ * Negamax search with alpha-beta pruning until the end of the game. Scores are disc differences
+ * from the perspective of the player to move.
+ */
+function search(board: OthelloBoard, empties: number, alpha: number, beta: number, solver: { nodes: number }): number {
+  solver.nodes += 1;
+  const moves = orderMoves(board, empties);
+
+  if (moves.length === 0) {
+    if (!board.pass()) {
+      return getDiscDifference(board);
+    }
+    const score = -search(board, empties, -beta, -alpha, solver);
+    board.undo();
+    return score;
+  }
+
+  for (const position of moves) {
+    board.tryApplyMove(position);
+    const score = -search(board, empties - 1, -beta, -alpha, solver);
+    board.undo();
+
+    if (score >= beta) {
+      return score;
+    }
+    alpha = Math.max(alpha, score);
+  }
+  return alpha;
+}
+
+function orderMoves(board: OthelloBoard, empties: number): Position[] {
+  const positions = board.getValidMoves().moves.map((move) => move.position);
+  if (empties <= FASTEST_FIRST_EMPTIES || positions.length < 2) {
+    return positions;
+  }
+
+  const replies = new Map<Position, number>();
+  for (const position of positions) {
+    board.tryApplyMove(position);
+    replies.set(position, board.getValidMoves().moves.length);
+    board.undo();
+  }
+  return positions.sort((a, b) => replies.get(a)! - replies.get(b)!);
+}
+
+function countEmpties(board: OthelloBoard): number {
+  const { black, white } = board.getGameStatistics();
+  return board.getSize() ** 2 - black - white;
+}
+
+function getDiscDifference(board: OthelloBoard): number {
+  const player = board.getCurrentPlayer();
+  const { black, white } = board.getGameStatistics();
+  return player === "B" ? black - white : white - black;
+}
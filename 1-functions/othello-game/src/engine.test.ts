@@ -0,0 +1,92 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, isInvalidBoardResult, isInvalidMoveResult } from "./index.js";
+import { STRATEGY_NAMES, chooseMove, createStrategy } from "./engine.js";
+
+function createBoard(boardString: string, player: "B" | "W" = "B"): OthelloBoard {
+  const board = OthelloBoard.fromString(boardString, player);
+  if (isInvalidBoardResult(board)) {
+    throw new Error(board.error);
+  }
+  return board;
+}
+
+describe("engine", () => {
+  test.each(STRATEGY_NAMES)("%s strategy returns a valid move without modifying the board", (strategy) => {
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("D3");
+    const before = board.toString();
+
+    const result = chooseMove(board, { strategy });
+    expect(result).not.toBeNull();
+    expect(board.getValidMoves().moves.map((m) => m.position)).toContainEqual(result?.position);
+    expect(board.toString()).toBe(before);
+    expect(board.getCurrentPlayer()).toBe("W");
+    expect(board.getHistory().length).toBe(1);
+  });
+
+  test.each(STRATEGY_NAMES)("%s strategy returns null if the player must pass", (strategy) => {
+    const board = createBoard("WB......\n........\n........\n........\n........\n........\n........\n........");
+    expect(chooseMove(board, { strategy })).toBeNull();
+  });
+
+  test("random strategy uses the given random number generator", () => {
+    const board = OthelloBoard.createEmpty();
+    const first = board.getValidMoves().moves[0];
+
+    const result = chooseMove(board, { strategy: "random", random: () => 0 });
+    expect(result).toEqual({ position: first?.position, score: 0 });
+  });
+
+  test("greedy strategy flips the most stones", () => {
+    const board = createBoard("........\n........\n........\nBWWW....\n........\n..BW....\n........\n........");
+
+    const result = chooseMove(board, { strategy: "greedy" });
+    expect(result).toEqual({ position: { row: 3, col: 4 }, score: 3 });
+  });
+
+  test("positional strategy prefers corners", () => {
+    const board = createBoard("........\n.W......\n..B.....\n........\n........\n..BWW...\n........\n........");
+
+    const result = chooseMove(board, { strategy: "positional" });
+    expect(result?.position).toEqual({ row: 0, col: 0 });
+  });
+
+  test("minimax strategy with depth 1 scores moves like the positional strategy", () => {
+    const board = createBoard("........\n.W......\n..B.....\n........\n........\n..BWW...\n........\n........");
+
+    const result = chooseMove(board, { strategy: "minimax", depth: 1 });
+    expect(result).toEqual(chooseMove(board, { strategy: "positional" }));
+  });
+
+  test("minimax strategy scores a won game by the stone difference", () => {
+    // Black's only move captures the last white stones and ends the game 5:0
+    const board = createBoard("BWW.....\n........\n........\n........\n........\n........\n........\nB.......");
+
+    const result = chooseMove(board, { strategy: "minimax", depth: 4 });
+    expect(result).toEqual({ position: { row: 0, col: 3 }, score: 5000 });
+  });
+
+  test("minimax strategy respects the time budget", () => {
+    const board = OthelloBoard.createEmpty();
+
+    const start = Date.now();
+    const result = chooseMove(board, { strategy: "minimax", depth: 30, timeLimitMs: 50 });
+    expect(result).not.toBeNull();
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  test("strategies can be reused for several moves", () => {
+    const board = OthelloBoard.createEmpty();
+    const black = createStrategy({ strategy: "minimax", depth: 2 });
+    const white = createStrategy({ strategy: "greedy" });
+
+    while (!board.isGameOver()) {
+      const strategy = board.getCurrentPlayer() === "B" ? black : white;
+      const move = strategy.chooseMove(board);
+      expect(move === null ? board.pass() : !isInvalidMoveResult(board.tryApplyMove(move.position))).toBe(true);
+    }
+
+    const { black: blackStones, white: whiteStones } = board.getGameStatistics();
+    expect(blackStones + whiteStones).toBeGreaterThan(4);
+  });
+});
@@ -0,0 +1,326 @@
+import type { Move, OthelloBoard, Player, Position } from "./index.js";
+import { BookStrategy, type OpeningBook } from "./openings.js";
+
+export type StrategyName = "random" | "greedy" | "positional" | "minimax";
+
+export const STRATEGY_NAMES: readonly StrategyName[] = ["random", "greedy", "positional", "minimax"];
+
+export type EngineOptions = {
+  strategy: StrategyName;
+  /**
+   * Maximum search depth in plies for the minimax strategy (default 4).
+   */
+  depth?: number;
+  /**
+   * Time budget in milliseconds for the minimax strategy. The search deepens iteratively and
+   * returns the best move of the deepest completed iteration when the budget is used up.
+   */
+  timeLimitMs?: number;
+  /**
+   * Random number generator returning values in [0, 1), used by the random strategy and to break ties.
+   * Defaults to Math.random; pass a seeded generator for reproducible games.
+   */
+  random?: () => number;
+  /**
+   * Opening book: while the game follows it, the strategy plays a random book move instead of searching.
+   */
+  book?: OpeningBook;
+};
+
+export type EngineMove = {
+  position: Position;
+  /**
+   * Evaluation of the move from the perspective of the player to move, higher is better.
+   * The scale depends on the strategy (flipped stones, positional weights, search score).
+   */
+  score: number;
+};
+
+/**
+ * A computer player. Implement this interface to plug in custom strategies.
+ */
+export interface Strategy {
+  readonly name: string;
+  /**
+   * Chooses a move for the player to move without modifying the board.
+   * Returns null if the player has no valid moves (i.e. must pass).
+   */
+  chooseMove(board: OthelloBoard): EngineMove | null;
+}
+
+/**
+ * Score of a finished game per stone of difference. Large enough to dominate any positional evaluation.
+ */
+const WIN_SCORE_PER_STONE = 1000;
+
+/**
+ * Classic positional weights: corners are valuable, fields next to corners are dangerous.
+ * Derived from the distances to the nearest edges so that they apply to all board sizes;
+ * on the 8x8 board this yields the well-known weight table.
+ */
+function getWeight(position: Position, size: number): number {
+  const rowDistance = Math.min(position.row, size - 1 - position.row);
+  const colDistance = Math.min(position.col, size - 1 - position.col);
+  const near = Math.min(rowDistance, colDistance);
+  const far = Math.max(rowDistance, colDistance);
+
+  if (near === 0) {
+    // Corner, C-square next to the corner, A-square (10) and remaining edge fields (5)
+    return [100, -20, 10][far] ?? 5;
+  }
+  if (near === 1) {
+    // X-square diagonally next to the corner, remaining fields of the second ring
+    return far === 1 ? -50 : -2;
+  }
+  return -1;
+}
+
+/**
+ * Sum of the positional weights of the player's stones minus those of the opponent's stones.
+ */
+function evaluatePosition(board: OthelloBoard, player: Player): number {
+  const size = board.getSize();
+  let score = 0;
+
+  for (let row = 0; row < size; row += 1) {
+    for (let col = 0; col < size; col += 1) {
+      const cell = board.getCell({ row, col });
+      if (cell !== null) {
+        const weight = getWeight({ row, col }, size);
+        score += cell === player ? weight : -weight;
+      }
+    }
+  }
+
+  return score;
+}
+
+/**
+ * Picks one of the moves with the highest score, breaking ties randomly.
+ */
+function pickBest(candidates: EngineMove[], random: () => number): EngineMove | null {
+  const bestScore = Math.max(...candidates.map((candidate) => candidate.score));
+  const best = candidates.filter((candidate) => candidate.score === bestScore);
+  return best[Math.floor(random() * best.length)] ?? null;
+}
+
+/**
+ * Plays a random valid move.
+ */
+export class RandomStrategy implements Strategy {
+  public readonly name = "random";
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  public chooseMove(board: OthelloBoard): EngineMove | null {
+    const { moves } = board.getValidMoves();
+    const move = moves[Math.floor(this.random() * moves.length)];
+    return move ? { position: move.position, score: 0 } : null;
+  }
+}
+
+/**
+ * Plays the move that flips the most stones.
+ */
+export class GreedyStrategy implements Strategy {
+  public readonly name = "greedy";
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  public chooseMove(board: OthelloBoard): EngineMove | null {
+    const candidates = board
+      .getValidMoves()
+      .moves.map((move) => ({ position: move.position, score: move.flippedPositions.length }));
+    return pickBest(candidates, this.random);
+  }
+}
+
+/**
+ * Plays the move that leads to the best position according to the positional weight table.
+ */
+export class PositionalStrategy implements Strategy {
+  public readonly name = "positional";
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  public chooseMove(board: OthelloBoard): EngineMove | null {
+    const player = board.getCurrentPlayer();
+    const size = board.getSize();
+    const candidates = board.getValidMoves().moves.map((move) => {
+      // Placed stone counts once, flipped stones twice (they are removed from the opponent)
+      const flipGain = move.flippedPositions.reduce((sum, position) => sum + 2 * getWeight(position, size), 0);
+      return {
+        position: move.position,
+        score: evaluatePosition(board, player) + getWeight(move.position, size) + flipGain,
+      };
+    });
+    return pickBest(candidates, this.random);
+  }
+}
+
+/**
+ * Alpha-beta search (negamax formulation) with iterative deepening and an optional time budget.
+ * Leaf positions are evaluated with the positional weight table, finished games by their stone difference.
+ */
+export class MinimaxStrategy implements Strategy {
+  public readonly name = "minimax";
+  private deadline = Infinity;
+  private aborted = false;
+
+  constructor(
+    private readonly depth = 4,
+    private readonly timeLimitMs?: number,
+    private readonly random: () => number = Math.random,
+  ) {}
+
+  public chooseMove(board: OthelloBoard): EngineMove | null {
+    const root = board.clone();
+    const moves = MinimaxStrategy.orderMoves(root.getValidMoves().moves, root.getSize());
+    if (moves.length === 0) {
+      return null;
+    }
+
+    this.deadline = this.timeLimitMs === undefined ? Infinity : Date.now() + this.timeLimitMs;
+    this.aborted = false;
+
+    let result: EngineMove | null = null;
+    for (let depth = 1; depth <= Math.max(1, this.depth); depth += 1) {
+      const candidates: EngineMove[] = [];
+      let alpha = -Infinity;
+
+      for (const move of moves) {
+        // Window starts just below alpha so that moves as good as the best one get exact scores for tie-breaking
+        root.tryApplyMove(move.position);
+        const score = -this.search(root, depth - 1, -Infinity, 1 - alpha);
+        root.undo();
+
+        if (this.aborted) {
+          break;
+        }
+
+        alpha = Math.max(alpha, score);
+        candidates.push({ position: move.position, score });
+      }
+
+      // Results of an interrupted iteration are incomplete, keep the result of the previous one
+      if (this.aborted) {
+        break;
+      }
+
+      result = pickBest(candidates, this.random);
+    }
+
+    return result;
+  }
+
+  /**
+   * Scores all valid moves, best first. Unlike chooseMove, every move is searched with the full window,
+   * so the scores of the weaker moves are exact as well. The time limit is not applied.
+   */
+  public rankMoves(board: OthelloBoard): EngineMove[] {
+    const root = board.clone();
+    this.deadline = Infinity;
+    this.aborted = false;
+
+    const ranked = root.getValidMoves().moves.map((move) => {
+      root.tryApplyMove(move.position);
+      const score = -this.search(root, Math.max(1, this.depth) - 1, -Infinity, Infinity);
+      root.undo();
+      return { position: move.position, score };
+    });
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  private search(board: OthelloBoard, depth: number, alpha: number, beta: number): number {
+    // Leaves are never interrupted, so the first iteration always completes and yields a move
+    if (this.deadline !== Infinity && depth > 0 && Date.now() > this.deadline) {
+      this.aborted = true;
+      return 0;
+    }
+
+    const player = board.getCurrentPlayer();
+    const moves = board.getValidMoves().moves;
+
+    if (moves.length === 0) {
+      if (!board.pass()) {
+        const { black, white } = board.getGameStatistics();
+        return (player === "B" ? black - white : white - black) * WIN_SCORE_PER_STONE;
+      }
+
+      const score = -this.search(board, depth, -beta, -alpha);
+      board.undo();
+      return score;
+    }
+
+    if (depth === 0) {
+      return evaluatePosition(board, player);
+    }
+
+    for (const move of MinimaxStrategy.orderMoves(moves, board.getSize())) {
+      board.tryApplyMove(move.position);
+      const score = -this.search(board, depth - 1, -beta, -alpha);
+      board.undo();
+
+      if (this.aborted) {
+        return 0;
+      }
+
+      if (score >= beta) {
+        return score;
+      }
+      alpha = Math.max(alpha, score);
+    }
+
+    return alpha;
+  }
+
+  /**
+   * Searches promising moves (by positional weight) first to get more alpha-beta cutoffs.
+   */
+  private static orderMoves(moves: Move[], size: number): Move[] {
+    return [...moves].sort((a, b) => getWeight(b.position, size) - getWeight(a.position, size));
+  }
+}
+
+/**
+ * Creates the strategy selected in the options, with the opening book if given.
+ */
+export function createStrategy(options: EngineOptions): Strategy {
+  if (options.book) {
+    const { book, ...rest } = options;
+    return new BookStrategy(book, createStrategy(rest), options.random);
+  }
+
+  switch (options.strategy) {
+    case "random":
+      return new RandomStrategy(options.random);
+    case "greedy":
+      return new GreedyStrategy(options.random);
+    case "positional":
+      return new PositionalStrategy(options.random);
+    case "minimax":
+      return new MinimaxStrategy(options.depth, options.timeLimitMs, options.random);
+  }
+}
+
+/**
+ * Convenience function to let the strategy selected in the options choose a move.
+ * Returns null if the player to move has no valid moves.
+ */
+export function chooseMove(board: OthelloBoard, options: EngineOptions): EngineMove | null {
+  return createStrategy(options).chooseMove(board);
+}
+
+/**
+ * Creates a deterministic random number generator (mulberry32) for reproducible games and benchmarks.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
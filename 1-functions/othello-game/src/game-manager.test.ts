@@ -0,0 +1,176 @@
+import { describe, expect, test } from "vitest";
+import { GameManager, isGameManagerError, type GameEvent } from "./game-manager.js";
+import { isInvalidMoveResult } from "./index.js";
+
+/**
+ * A game manager with a clock that the tests advance by hand.
+ */
+function createManager() {
+  const clock = { time: 1000 };
+  const manager = new GameManager({ now: () => clock.time });
+  return { manager, clock };
+}
+
+describe("GameManager", () => {
+  test("creates games with consecutive ids", () => {
+    const { manager } = createManager();
+    const first = manager.createGame();
+    const second = manager.createGame({ boardOptions: { size: 6 } });
+
+    expect(first.id).toBe("1");
+    expect(second.id).toBe("2");
+    expect(manager.getBoard("2")?.getSize()).toBe(6);
+    expect(manager.listGames().map((game) => game.id)).toEqual(["1", "2"]);
+  });
+
+  test("starts a game when both players have joined", () => {
+    const { manager } = createManager();
+    const { id } = manager.createGame();
+    expect(manager.getGame(id)?.status).toBe("waiting");
+
+    expect(manager.joinGame(id, "Ann")).toMatchObject({ players: { B: "Ann", W: null }, status: "waiting" });
+    expect(manager.joinGame(id, "Bob")).toMatchObject({ players: { B: "Ann", W: "Bob" }, status: "playing" });
+
+    const result = manager.joinGame(id, "Eve");
+    expect(isGameManagerError(result) && result.reason).toBe("game-full");
+  });
+
+  test("rejects moves before the game has started", () => {
+    const { manager } = createManager();
+    const { id } = manager.createGame({ players: { B: "Ann" } });
+
+    const result = manager.applyMove(id, "D3");
+    expect(isGameManagerError(result) && result.reason).toBe("not-started");
+  });
+
+  test("applies moves and passes on the right board", () => {
+    const { manager } = createManager();
+    const first = manager.createGame({ players: { B: "Ann", W: "Bob" } });
+    const second = manager.createGame({ players: { B: "Cid", W: "Dee" } });
+
+    expect(isInvalidMoveResult(manager.applyMove(first.id, "D3"))).toBe(false);
+    expect(manager.getGame(first.id)?.moves).toBe(1);
+    expect(manager.getGame(second.id)?.moves).toBe(0);
+
+    const invalid = manager.applyMove(first.id, "D3");
+    expect(isInvalidMoveResult(invalid) && invalid.reason).toBe("occupied");
+    expect(isGameManagerError(invalid)).toBe(false);
+
+    const pass = manager.pass(first.id);
+    expect(isGameManagerError(pass) && pass.reason).toBe("must-not-pass");
+  });
+
+  test("reports unknown games", () => {
+    const { manager } = createManager();
+    const result = manager.applyMove("42", "D3");
+    expect(isGameManagerError(result) && result.reason).toBe("unknown-game");
+    expect(manager.getGame("42")).toBeUndefined();
+  });
+
+  test("records the thinking time of each player", () => {
+    const { manager, clock } = createManager();
+    const { id } = manager.createGame({ players: { B: "Ann", W: "Bob" } });
+
+    clock.time += 3000;
+    manager.applyMove(id, "D3");
+    clock.time += 5000;
+    manager.applyMove(id, "C3");
+    clock.time += 1000;
+
+    expect(manager.getGame(id)?.timeUsedMs).toEqual({ B: 4000, W: 5000 });
+  });
+
+  test("emits events for moves, passes and the end of the game", () => {
+    const { manager } = createManager();
+    const { id } = manager.createGame({ boardOptions: { size: 4 }, players: { B: "Ann", W: "Bob" } });
+    const events: GameEvent[] = [];
+    manager.on("move", (event) => events.push(event));
+    manager.on("pass", (event) => events.push(event));
+    manager.on("end", (event) => events.push(event));
+
+    // Play the first valid move until the game is over
+    for (let board = manager.getBoard(id)!; !board.isGameOver(); board = manager.getBoard(id)!) {
+      const move = board.getValidMoves().moves[0];
+      if (move) {
+        manager.applyMove(id, move.position);
+      } else {
+        manager.pass(id);
+      }
+    }
+
+    const board = manager.getBoard(id)!;
+    const history = board.getHistory();
+    expect(events.filter((event) => event.type === "move")).toHaveLength(
+      history.filter((entry) => entry.type === "move").length,
+    );
+    expect(events.filter((event) => event.type === "pass")).toHaveLength(
+      history.filter((entry) => entry.type === "pass").length,
+    );
+    expect(events.at(-1)).toMatchObject({
+      type: "end",
+      result: { winner: board.getWinner(), reason: "game-over" },
+      game: { status: "finished" },
+    });
+  });
+
+  test("ends the game on resignation and archives it", () => {
+    const { manager, clock } = createManager();
+    const { id } = manager.createGame({ players: { B: "Ann", W: "Bob" } });
+    const ended: string[] = [];
+    const unsubscribe = manager.on("end", (event) => ended.push(event.result.winner));
+
+    expect(isGameManagerError(manager.archiveGame(id))).toBe(true);
+
+    clock.time += 2000;
+    expect(manager.resign(id, "B")).toMatchObject({
+      status: "finished",
+      result: { winner: "W", reason: "resigned" },
+      timeUsedMs: { B: 2000, W: 0 },
+      finishedAt: 3000,
+    });
+    expect(ended).toEqual(["W"]);
+
+    expect(manager.archiveGame(id)).toMatchObject({ status: "archived" });
+    expect(manager.listGames()).toEqual([]);
+    expect(manager.listGames("archived").map((game) => game.id)).toEqual([id]);
+
+    unsubscribe();
+    const next = manager.createGame({ players: { B: "Ann", W: "Bob" } });
+    manager.resign(next.id, "W");
+    expect(ended).toEqual(["W"]);
+  });
+
+  test("ends a timed game when the player to move runs out of time", () => {
+    const { manager, clock } = createManager();
+    const { id } = manager.createGame({
+      players: { B: "Ann", W: "Bob" },
+      timeControl: { baseMs: 10_000, incrementMs: 1000 },
+    });
+
+    clock.time += 4000;
+    manager.applyMove(id, "D3");
+    expect(manager.getGame(id)?.remainingMs).toEqual({ B: 7000, W: 10_000 });
+
+    clock.time += 10_000;
+    const late = manager.applyMove(id, "C3");
+    expect(isGameManagerError(late) && late.reason).toBe("game-finished");
+    expect(isInvalidMoveResult(late)).toBe(false);
+    expect(manager.getGame(id)).toMatchObject({ status: "finished", result: { winner: "B", reason: "flag-fall" } });
+  });
+
+  test("rejects moves while the clock is paused", () => {
+    const { manager, clock } = createManager();
+    const { id } = manager.createGame({ players: { B: "Ann", W: "Bob" }, timeControl: { baseMs: 10_000, incrementMs: 0 } });
+
+    manager.pauseGame(id);
+    clock.time += 60_000;
+    const result = manager.applyMove(id, "D3");
+    expect(isGameManagerError(result) && result.reason).toBe("paused");
+    expect(isInvalidMoveResult(result)).toBe(false);
+    expect(manager.checkFlag(id)).toMatchObject({ status: "playing", paused: true });
+
+    manager.resumeGame(id);
+    expect(isInvalidMoveResult(manager.applyMove(id, "D3"))).toBe(false);
+    expect(manager.getGame(id)?.remainingMs).toEqual({ B: 10_000, W: 10_000 });
+  });
+});
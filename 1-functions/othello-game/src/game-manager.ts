@@ -0,0 +1,461 @@
+import { GameClock, type TimeControl } from "./clock.js";
+import {
+  OthelloBoard,
+  isInvalidBoardResult,
+  isInvalidMoveResult,
+  type BoardOptions,
+  type GameResult,
+  type GameStatistics,
+  type InvalidBoardResult,
+  type InvalidMoveResult,
+  type MoveHistoryEntry,
+  type Player,
+  type Position,
+} from "./index.js";
+
+/**
+ * "waiting" until both players have joined, "playing" until the game ends, "finished" afterwards.
+ * Finished games can be archived, which removes them from the list of open games.
+ */
+export type ManagedGameStatus = "waiting" | "playing" | "finished" | "archived";
+
+export type ManagedGameResult = {
+  winner: GameResult;
+  /**
+   * "game-over": no player can move anymore; "resigned": the loser gave up;
+   * "flag-fall": the loser ran out of time.
+   */
+  reason: "game-over" | "resigned" | "flag-fall";
+};
+
+/**
+ * Snapshot of a managed game. It contains only plain data, e.g. to send it to the clients of a server.
+ */
+export type GameInfo = {
+  id: string;
+  status: ManagedGameStatus;
+  /**
+   * Names of the players, null for a free seat.
+   */
+  players: Record<Player, string | null>;
+  currentPlayer: Player;
+  statistics: GameStatistics;
+  /**
+   * Number of moves and passes played.
+   */
+  moves: number;
+  /**
+   * Thinking time of each player in milliseconds, including the running turn.
+   */
+  timeUsedMs: Record<Player, number>;
+  timeControl: TimeControl | null;
+  /**
+   * Time left on the players' clocks in milliseconds, null without a time control.
+   */
+  remainingMs: Record<Player, number> | null;
+  /**
+   * True while the clock is paused; no moves can be made then.
+   */
+  paused: boolean;
+  result: ManagedGameResult | null;
+  /**
+   * Timestamps in milliseconds since the epoch (see GameManagerOptions.now).
+   */
+  createdAt: number;
+  finishedAt: number | null;
+};
+
+/**
+ * Why the game manager rejected a request:
+ * - "unknown-game": there is no game with this id
+ * - "game-full": both seats are taken
+ * - "not-started": the game is still waiting for a player
+ * - "paused": the clock is paused
+ * - "not-finished": only finished games can be archived
+ * - "game-finished": the game is already over
+ * - "must-not-pass": the player to move has a valid move
+ */
+export type GameManagerErrorReason =
+  "unknown-game" | "game-full" | "not-started" | "paused" | "not-finished" | "game-finished" | "must-not-pass";
+
+const GAME_MANAGER_ERROR_REASONS: readonly GameManagerErrorReason[] = [
+  "unknown-game",
+  "game-full",
+  "not-started",
+  "paused",
+  "not-finished",
+  "game-finished",
+  "must-not-pass",
+];
+
+/**
+ * The reasons differ from those of an InvalidMoveResult, so that applyMove's results can be told apart.
+ */
+export type GameManagerError = InvalidBoardResult & {
+  reason: GameManagerErrorReason;
+};
+
+export const isGameManagerError = (input: unknown): input is GameManagerError =>
+  isInvalidBoardResult(input) &&
+  GAME_MANAGER_ERROR_REASONS.includes((input as { reason?: unknown }).reason as GameManagerErrorReason);
+
+export type GameEvent =
+  | { type: "create"; game: GameInfo }
+  | { type: "join"; game: GameInfo; player: Player }
+  | { type: "move"; game: GameInfo; move: MoveHistoryEntry }
+  | { type: "pass"; game: GameInfo; player: Player }
+  | { type: "end"; game: GameInfo; result: ManagedGameResult }
+  | { type: "archive"; game: GameInfo };
+
+export type GameEventType = GameEvent["type"];
+
+export type GameEventListener<T extends GameEventType> = (event: Extract<GameEvent, { type: T }>) => void;
+
+export type CreateGameOptions = {
+  boardOptions?: BoardOptions;
+  /**
+   * Players who take their seats right away. The game starts as soon as both seats are taken.
+   */
+  players?: Partial<Record<Player, string>>;
+  /**
+   * Makes the game a timed game: a player who runs out of time loses.
+   */
+  timeControl?: TimeControl;
+};
+
+export type GameManagerOptions = {
+  /**
+   * Clock for the timestamps and the thinking times, defaults to Date.now. Tests pass a fake clock.
+   */
+  now?: () => number;
+};
+
+type ManagedGame = {
+  id: string;
+  board: OthelloBoard;
+  players: Record<Player, string | null>;
+  result: ManagedGameResult | null;
+  archived: boolean;
+  /**
+   * True once both players have joined.
+   */
+  started: boolean;
+  clock: GameClock;
+  createdAt: number;
+  finishedAt: number | null;
+};
+
+/**
+ * Hosts any number of games at once, e.g. for a server with many clients. Every game has an id,
+ * two seats for named players, a clock (see GameClock) and a status. Moves and passes go through
+ * the manager, which emits events for them and for the end of the game.
+ * Ids are consecutive numbers ("1", "2", ...) like those of the othello-mcp server.
+ *
+ * The othello-server and othello-mcp packages keep their own Room and GameStore: they need per-move
+ * timeouts, reconnects and undo, which the manager does not offer.
+ */
+export class GameManager {
+  private readonly games = new Map<string, ManagedGame>();
+  private readonly listeners = new Map<GameEventType, Set<(event: GameEvent) => void>>();
+  private readonly now: () => number;
+  private nextId = 1;
+
+  constructor(options: GameManagerOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Registers a listener for an event type. Returns a function that removes the listener again.
+   */
+  public on<T extends GameEventType>(type: T, listener: GameEventListener<T>): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    this.listeners.set(type, listeners);
+    const wrapped = listener as (event: GameEvent) => void;
+    listeners.add(wrapped);
+    return () => listeners.delete(wrapped);
+  }
+
+  /**
+   * Creates a game in the starting position. Throws a RangeError if the board size in the options is invalid.
+   */
+  public createGame(options: CreateGameOptions = {}): GameInfo {
+    const game: ManagedGame = {
+      id: String(this.nextId),
+      board: OthelloBoard.createEmpty(options.boardOptions),
+      players: { B: options.players?.B ?? null, W: options.players?.W ?? null },
+      result: null,
+      archived: false,
+      started: false,
+      clock: new GameClock(options.timeControl ?? null, this.now),
+      createdAt: this.now(),
+      finishedAt: null,
+    };
+    this.nextId += 1;
+    this.games.set(game.id, game);
+    this.startIfReady(game);
+    this.emit({ type: "create", game: this.toInfo(game) });
+    return this.toInfo(game);
+  }
+
+  /**
+   * Seats a player: on the given color, or on the first free seat (Black first).
+   */
+  public joinGame(id: string, name: string, color?: Player): GameInfo | GameManagerError {
+    const game = this.getManagedGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    if (game.result) {
+      return { reason: "game-finished", error: `Game "${id}" is already over.` };
+    }
+
+    const seat = color ?? (game.players.B === null ? "B" : "W");
+    if (game.players[seat] !== null) {
+      return { reason: "game-full", error: `The seat of ${playerName(seat)} in game "${id}" is taken.` };
+    }
+    game.players[seat] = name;
+    this.startIfReady(game);
+    this.emit({ type: "join", game: this.toInfo(game), player: seat });
+    return this.toInfo(game);
+  }
+
+  /**
+   * Applies a move for the player to move. If a player is given, the move is rejected unless it
+   * is this player's turn (see OthelloBoard.tryApplyMove).
+   */
+  public applyMove(
+    id: string,
+    position: Position | string,
+    player?: Player,
+  ): MoveHistoryEntry | InvalidMoveResult | GameManagerError {
+    const game = this.getPlayingGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+
+    const move =
+      typeof position === "string" ? game.board.tryApplyMove(position, player) : game.board.tryApplyMove(position, player);
+    if (isInvalidMoveResult(move)) {
+      return move;
+    }
+
+    game.clock.press();
+    this.emit({ type: "move", game: this.toInfo(game), move });
+    this.checkGameOver(game);
+    return move;
+  }
+
+  /**
+   * Passes for the player to move, which is only allowed if that player has no valid move.
+   */
+  public pass(id: string): GameInfo | GameManagerError {
+    const game = this.getPlayingGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+
+    const player = game.board.getCurrentPlayer();
+    if (!game.board.pass()) {
+      return { reason: "must-not-pass", error: `${playerName(player)} has a valid move and must not pass.` };
+    }
+
+    game.clock.press();
+    this.emit({ type: "pass", game: this.toInfo(game), player });
+    this.checkGameOver(game);
+    return this.toInfo(game);
+  }
+
+  /**
+   * Ends the game early: the opponent of the given player wins.
+   */
+  public resign(id: string, player: Player): GameInfo | GameManagerError {
+    const game = this.getPlayingGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    this.finish(game, { winner: player === "B" ? "W" : "B", reason: "resigned" });
+    return this.toInfo(game);
+  }
+
+  /**
+   * Ends the game if the player to move has run out of time. Moves are checked anyway, but a server
+   * can call this when the time is up (see remainingMs) to end the game right away.
+   */
+  public checkFlag(id: string): GameInfo | GameManagerError {
+    const game = this.getManagedGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    if (!game.result) {
+      this.checkFlagFall(game);
+    }
+    return this.toInfo(game);
+  }
+
+  /**
+   * Stops the clock of a running game, e.g. for a break. No moves can be made until resumeGame.
+   */
+  public pauseGame(id: string): GameInfo | GameManagerError {
+    const game = this.getPlayingGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    game.clock.pause();
+    return this.toInfo(game);
+  }
+
+  public resumeGame(id: string): GameInfo | GameManagerError {
+    const game = this.getManagedGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    game.clock.resume();
+    return this.toInfo(game);
+  }
+
+  /**
+   * Moves a finished game to the archive. Archived games are no longer listed by default.
+   */
+  public archiveGame(id: string): GameInfo | GameManagerError {
+    const game = this.getManagedGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    if (!game.result) {
+      return { reason: "not-finished", error: `Game "${id}" is not finished yet.` };
+    }
+    if (!game.archived) {
+      game.archived = true;
+      this.emit({ type: "archive", game: this.toInfo(game) });
+    }
+    return this.toInfo(game);
+  }
+
+  /**
+   * Removes a game, e.g. an archived game that was saved elsewhere. Returns false if there is no such game.
+   */
+  public deleteGame(id: string): boolean {
+    return this.games.delete(id);
+  }
+
+  public getGame(id: string): GameInfo | undefined {
+    const game = this.games.get(id);
+    return game && this.toInfo(game);
+  }
+
+  /**
+   * Returns a copy of the board of a game, including its history, or undefined if there is no such game.
+   * Changes of the copy do not affect the game; play with applyMove and pass.
+   */
+  public getBoard(id: string): OthelloBoard | undefined {
+    return this.games.get(id)?.board.clone();
+  }
+
+  /**
+   * Returns the games with the given status, or all games that are not archived. Oldest first.
+   */
+  public listGames(status?: ManagedGameStatus): GameInfo[] {
+    return [...this.games.values()]
+      .map((game) => this.toInfo(game))
+      .filter((game) => (status === undefined ? game.status !== "archived" : game.status === status));
+  }
+
+  private getManagedGame(id: string): ManagedGame | GameManagerError {
+    return this.games.get(id) ?? { reason: "unknown-game", error: `Game "${id}" does not exist.` };
+  }
+
+  /**
+   * Returns the game if moves can be made in it. A flag fall ends the game here, before the late move.
+   */
+  private getPlayingGame(id: string): ManagedGame | GameManagerError {
+    const game = this.getManagedGame(id);
+    if (isGameManagerError(game)) {
+      return game;
+    }
+    if (!game.result && this.checkFlagFall(game)) {
+      return { reason: "game-finished", error: `${playerName(game.board.getCurrentPlayer())} ran out of time.` };
+    }
+    if (game.result) {
+      return { reason: "game-finished", error: `Game "${id}" is already over.` };
+    }
+    if (!game.started) {
+      return { reason: "not-started", error: `Game "${id}" is still waiting for a player.` };
+    }
+    if (game.clock.isPaused()) {
+      return { reason: "paused", error: `Game "${id}" is paused.` };
+    }
+    return game;
+  }
+
+  private startIfReady(game: ManagedGame): void {
+    if (!game.started && game.players.B !== null && game.players.W !== null) {
+      game.started = true;
+      game.clock.start(game.board.getCurrentPlayer());
+    }
+  }
+
+  /**
+   * Ends the game if a player has run out of time. Returns true if it did.
+   */
+  private checkFlagFall(game: ManagedGame): boolean {
+    const flagged = game.clock.getFlaggedPlayer();
+    if (flagged === null) {
+      return false;
+    }
+    this.finish(game, { winner: flagged === "B" ? "W" : "B", reason: "flag-fall" });
+    return true;
+  }
+
+  private checkGameOver(game: ManagedGame): void {
+    if (game.board.isGameOver()) {
+      this.finish(game, { winner: game.board.getWinner() ?? "draw", reason: "game-over" });
+    }
+  }
+
+  private finish(game: ManagedGame, result: ManagedGameResult): void {
+    game.clock.stop();
+    game.result = result;
+    game.finishedAt = this.now();
+    this.emit({ type: "end", game: this.toInfo(game), result });
+  }
+
+  private toInfo(game: ManagedGame): GameInfo {
+    const { clock } = game;
+    const remaining = { B: clock.getRemaining("B"), W: clock.getRemaining("W") };
+
+    let status: ManagedGameStatus = "waiting";
+    if (game.archived) {
+      status = "archived";
+    } else if (game.result) {
+      status = "finished";
+    } else if (game.started) {
+      status = "playing";
+    }
+
+    return {
+      id: game.id,
+      status,
+      players: { ...game.players },
+      currentPlayer: game.board.getCurrentPlayer(),
+      statistics: game.board.getGameStatistics(),
+      moves: game.board.getHistory().length,
+      timeUsedMs: { B: clock.getTimeUsed("B"), W: clock.getTimeUsed("W") },
+      timeControl: clock.timeControl && { ...clock.timeControl },
+      remainingMs: remaining.B === null || remaining.W === null ? null : { B: remaining.B, W: remaining.W },
+      paused: clock.isPaused(),
+      result: game.result && { ...game.result },
+      createdAt: game.createdAt,
+      finishedAt: game.finishedAt,
+    };
+  }
+
+  private emit(event: GameEvent): void {
+    for (const listener of this.listeners.get(event.type) ?? []) {
+      listener(event);
+    }
+  }
+}
+
+function playerName(player: Player): string {
+  return player === "B" ? "Black" : "White";
+}
@@ -1,9 +1,23 @@
 import { describe, expect, test } from "vitest";
-import { OthelloBoard, isInvalidBoardResult } from "./index.js";
+import {
+  OthelloBoard,
+  isInvalidBoardResult,
+  isInvalidMoveResult,
+  type BoardOptions,
+  type BoardRepresentation,
+  type Player,
+} from "./index.js";
+
+const REPRESENTATIONS: BoardRepresentation[] = ["array", "bitboard"];
+
+// The same behavior is expected from both representations of the stones
+describe.each(REPRESENTATIONS)("OthelloBoard (%s)", (representation) => {
+  const createEmpty = (options: BoardOptions = {}) => OthelloBoard.createEmpty({ representation, ...options });
+  const fromString = (boardString: string, currentPlayer?: Player, options: BoardOptions = {}) =>
+    OthelloBoard.fromString(boardString, currentPlayer, { representation, ...options });
 
-describe("OthelloBoard", () => {
   test("creates a board with standard initial setup", () => {
-    const board = OthelloBoard.createEmpty();
+    const board = createEmpty();
     expect(board).toBeInstanceOf(OthelloBoard);
     expect(board.getCurrentPlayer()).toBe("B");
 
@@ -16,10 +30,7 @@ describe("OthelloBoard", () => {
     expect(positionsBlack).toContainEqual({ row: 5, col: 4 });
 
     // Create separate board for white to test white's valid moves
-    const boardWhite = OthelloBoard.fromString(
-      "........\n........\n........\n...WB...\n...BW...\n........\n........\n........",
-      "W",
-    );
+    const boardWhite = fromString("........\n........\n........\n...WB...\n...BW...\n........\n........\n........", "W");
     if (!isInvalidBoardResult(boardWhite)) {
       const resultWhite = boardWhite.getValidMoves();
       expect(resultWhite.moves.length).toBe(4);
@@ -35,7 +46,7 @@ describe("OthelloBoard", () => {
     test("creates a valid board from a valid string", () => {
       const boardString = "........\n........\n........\n...WB...\n...BW...\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
       expect(isInvalidBoardResult(result)).toBe(false);
       expect(result).toBeInstanceOf(OthelloBoard);
     });
@@ -43,7 +54,7 @@ describe("OthelloBoard", () => {
     test("rejects board with too few rows", () => {
       const boardString = "........";
 
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
       expect(isInvalidBoardResult(result)).toBe(true);
       if (isInvalidBoardResult(result)) {
         expect(result.error).toBe("Board must contain exactly 8 rows.");
@@ -62,7 +73,7 @@ describe("OthelloBoard", () => {
         "........\n" +
         "........";
 
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
       expect(isInvalidBoardResult(result)).toBe(true);
       if (isInvalidBoardResult(result)) {
         expect(result.error).toBe("Board must contain exactly 8 rows.");
@@ -72,7 +83,7 @@ describe("OthelloBoard", () => {
     test("rejects board with row too short", () => {
       const boardString = "........\n.......\n........\n...WB...\n...BW...\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
       expect(isInvalidBoardResult(result)).toBe(true);
       if (isInvalidBoardResult(result)) {
         expect(result.error).toBe("Each row must contain exactly 8 fields.");
@@ -82,7 +93,7 @@ describe("OthelloBoard", () => {
     test("rejects board with row too long", () => {
       const boardString = "........\n.........\n........\n...WB...\n...BW...\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
       expect(isInvalidBoardResult(result)).toBe(true);
       if (isInvalidBoardResult(result)) {
         expect(result.error).toBe("Each row must contain exactly 8 fields.");
@@ -92,7 +103,7 @@ describe("OthelloBoard", () => {
     test("rejects board with invalid characters", () => {
       const boardString = "........\n........\n........\n...WB...\n...BX...\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
       expect(isInvalidBoardResult(result)).toBe(true);
       if (isInvalidBoardResult(result)) {
         expect(result.error).toBe("Board can only contain the characters B, W, or .");
@@ -104,7 +115,7 @@ describe("OthelloBoard", () => {
     test("returns empty moves array when no valid moves exist", () => {
       const boardString = "........\n........\n........\n...BBB..\n........\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         expect(moves.moves.length).toBe(0);
@@ -114,7 +125,7 @@ describe("OthelloBoard", () => {
     test("returns correct flipped positions for a simple horizontal capture", () => {
       const boardString = "........\n........\n........\n..BW....\n........\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         const move = moves.moves.find((m) => m.position.row === 3 && m.position.col === 4);
@@ -129,7 +140,7 @@ describe("OthelloBoard", () => {
     test("returns correct flipped positions for a simple vertical capture", () => {
       const boardString = "........\n...B....\n...W....\n........\n........\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         const move = moves.moves.find((m) => m.position.row === 3 && m.position.col === 3);
@@ -144,7 +155,7 @@ describe("OthelloBoard", () => {
     test("returns correct flipped positions for a diagonal capture", () => {
       const boardString = "........\n...B....\n....W...\n........\n........\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         const move = moves.moves.find((m) => m.position.row === 3 && m.position.col === 5);
@@ -159,7 +170,7 @@ describe("OthelloBoard", () => {
     test("returns multiple flipped positions when capturing in multiple directions", () => {
       const boardString = ".....B..\n..BWW...\n...BWW..\n...B.W..\n.....B..\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         const move = moves.moves.find((m) => m.position.row === 1 && m.position.col === 5);
@@ -177,7 +188,7 @@ describe("OthelloBoard", () => {
     });
 
     test("does not allow move on occupied cell", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const moves = board.getValidMoves();
 
       // Check that none of the valid moves are on the initial occupied positions
@@ -191,7 +202,7 @@ describe("OthelloBoard", () => {
     test("captures multiple pieces in a line", () => {
       const boardString = "........\n........\n........\nBWWW....\n........\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         const move = moves.moves.find((m) => m.position.row === 3 && m.position.col === 4);
@@ -208,7 +219,7 @@ describe("OthelloBoard", () => {
     test("does not capture beyond board boundaries", () => {
       const boardString = "WWB.....\n........\n........\n........\n........\n........\n........\n........";
 
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
       if (!isInvalidBoardResult(result)) {
         const moves = result.getValidMoves();
         // Should not find any valid moves from these white pieces
@@ -220,30 +231,30 @@ describe("OthelloBoard", () => {
 
   describe("move validation through tryApplyMove", () => {
     test("rejects occupied position", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const result = board.tryApplyMove({ row: 3, col: 3 });
-      expect(result).toBe(false);
+      expect(result).toMatchObject({ reason: "occupied" });
     });
 
     test("rejects position with no captures", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const result = board.tryApplyMove({ row: 0, col: 0 });
-      expect(result).toBe(false);
+      expect(result).toMatchObject({ reason: "no-flips" });
     });
 
     test("rejects out of bounds position", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const result = board.tryApplyMove({ row: -1, col: 0 });
-      expect(result).toBe(false);
+      expect(result).toMatchObject({ reason: "off-board" });
     });
 
     test("accepts and applies valid move with flips", () => {
       const boardString = "........\n........\n........\n..BW....\n........\n........\n........\n........";
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
 
       if (!isInvalidBoardResult(result)) {
         const success = result.tryApplyMove({ row: 3, col: 4 });
-        expect(success).toBe(true);
+        expect(isInvalidMoveResult(success)).toBe(false);
         // Verify the flip occurred
         const boardStr = result.toString();
         const rows = boardStr.split("\n");
@@ -254,11 +265,11 @@ describe("OthelloBoard", () => {
 
     test("applies multi-directional capture correctly", () => {
       const boardString = ".....B..\n..BWW...\n...BWW..\n...B.W..\n.....B..\n........\n........\n........";
-      const result = OthelloBoard.fromString(boardString, "B");
+      const result = fromString(boardString, "B");
 
       if (!isInvalidBoardResult(result)) {
         const success = result.tryApplyMove({ row: 1, col: 5 });
-        expect(success).toBe(true);
+        expect(isInvalidMoveResult(success)).toBe(false);
         const boardStr = result.toString();
         const rows = boardStr.split("\n");
         // Check that pieces were flipped
@@ -274,20 +285,20 @@ describe("OthelloBoard", () => {
       const boardString = "........\n........\n........\n..BW....\n........\n........\n........\n........";
 
       // Test black player
-      const boardBlack = OthelloBoard.fromString(boardString, "B");
+      const boardBlack = fromString(boardString, "B");
       if (!isInvalidBoardResult(boardBlack)) {
         expect(boardBlack.getCurrentPlayer()).toBe("B");
         const blackResult = boardBlack.tryApplyMove({ row: 3, col: 4 });
-        expect(blackResult).toBe(true);
+        expect(isInvalidMoveResult(blackResult)).toBe(false);
         expect(boardBlack.getCurrentPlayer()).toBe("W"); // Player switched
       }
 
       // Test white player
-      const boardWhite = OthelloBoard.fromString(boardString, "W");
+      const boardWhite = fromString(boardString, "W");
       if (!isInvalidBoardResult(boardWhite)) {
         expect(boardWhite.getCurrentPlayer()).toBe("W");
         const whiteResult = boardWhite.tryApplyMove({ row: 3, col: 1 });
-        expect(whiteResult).toBe(true);
+        expect(isInvalidMoveResult(whiteResult)).toBe(false);
         expect(boardWhite.getCurrentPlayer()).toBe("B"); // Player switched
       }
     });
@@ -300,7 +311,7 @@ describe("OthelloBoard", () => {
     });
 
     test("returns false for valid board instance", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       expect(isInvalidBoardResult(board)).toBe(false);
     });
 
@@ -326,7 +337,7 @@ describe("OthelloBoard", () => {
   describe("tryApplyMove", () => {
     test("returns true and applies valid move (both Position object and string)", () => {
       // Test with Position object
-      const board1 = OthelloBoard.createEmpty();
+      const board1 = createEmpty();
       expect(board1.getCurrentPlayer()).toBe("B");
       const moves1 = board1.getValidMoves();
       const move = moves1.moves[0];
@@ -335,7 +346,7 @@ describe("OthelloBoard", () => {
       if (!move) return;
 
       const result1 = board1.tryApplyMove(move.position);
-      expect(result1).toBe(true);
+      expect(isInvalidMoveResult(result1)).toBe(false);
       expect(board1.getCurrentPlayer()).toBe("W"); // Player switched
       const boardString1 = board1.toString();
       const rows1 = boardString1.split("\n");
@@ -343,14 +354,14 @@ describe("OthelloBoard", () => {
       expect(row1?.[move.position.col]).toBe("B");
 
       // Test with string position
-      const board2 = OthelloBoard.createEmpty();
+      const board2 = createEmpty();
       expect(board2.getCurrentPlayer()).toBe("B");
       const moves2 = board2.getValidMoves();
       const moveD3 = moves2.moves.find((m) => m.position.row === 2 && m.position.col === 3);
       expect(moveD3).toBeDefined();
 
       const result2 = board2.tryApplyMove("D3");
-      expect(result2).toBe(true);
+      expect(isInvalidMoveResult(result2)).toBe(false);
       expect(board2.getCurrentPlayer()).toBe("W"); // Player switched
       const boardString2 = board2.toString();
       const rows2 = boardString2.split("\n");
@@ -358,26 +369,26 @@ describe("OthelloBoard", () => {
     });
 
     test("returns false and does not modify board for invalid move (both Position object and string)", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       expect(board.getCurrentPlayer()).toBe("B");
       const originalString = board.toString();
 
       // Test with Position object
       const invalidMove = { row: 0, col: 0 };
       const result1 = board.tryApplyMove(invalidMove);
-      expect(result1).toBe(false);
+      expect(result1).toMatchObject({ reason: "no-flips" });
       expect(board.toString()).toBe(originalString);
       expect(board.getCurrentPlayer()).toBe("B"); // Player unchanged
 
       // Test with string position (board should still be unchanged)
       const result2 = board.tryApplyMove("A1");
-      expect(result2).toBe(false);
+      expect(result2).toMatchObject({ reason: "no-flips" });
       expect(board.toString()).toBe(originalString);
       expect(board.getCurrentPlayer()).toBe("B"); // Player unchanged
     });
 
     test("returns false for occupied position (both Position object and string)", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       expect(board.getCurrentPlayer()).toBe("B");
       const originalString = board.toString();
 
@@ -387,20 +398,20 @@ describe("OthelloBoard", () => {
         col: 3, // Already occupied by W
       };
       const result1 = board.tryApplyMove(invalidMove);
-      expect(result1).toBe(false);
+      expect(result1).toMatchObject({ reason: "occupied" });
       expect(board.toString()).toBe(originalString);
       expect(board.getCurrentPlayer()).toBe("B"); // Player unchanged
 
       // Test with string position - D4 is (3, 3) (board should still be unchanged)
       const result2 = board.tryApplyMove("D4");
-      expect(result2).toBe(false);
+      expect(result2).toMatchObject({ reason: "occupied" });
       expect(board.toString()).toBe(originalString);
       expect(board.getCurrentPlayer()).toBe("B"); // Player unchanged
     });
 
     test("modifies board in-place when successful (both Position object and string)", () => {
       // Test with Position object
-      const board1 = OthelloBoard.createEmpty();
+      const board1 = createEmpty();
       const originalString1 = board1.toString();
       const moves1 = board1.getValidMoves();
       const move = moves1.moves[0];
@@ -409,22 +420,22 @@ describe("OthelloBoard", () => {
       if (!move) return;
 
       const result1 = board1.tryApplyMove(move.position);
-      expect(result1).toBe(true);
+      expect(isInvalidMoveResult(result1)).toBe(false);
       expect(board1.toString()).not.toBe(originalString1);
 
       // Test with string position
-      const board2 = OthelloBoard.createEmpty();
+      const board2 = createEmpty();
       const originalString2 = board2.toString();
 
       const result2 = board2.tryApplyMove("D3");
-      expect(result2).toBe(true);
+      expect(isInvalidMoveResult(result2)).toBe(false);
       expect(board2.toString()).not.toBe(originalString2);
     });
 
     test("flips opponent pieces when successful (both Position object and string)", () => {
       // Test with Position object
       const boardString1 = "........\n........\n........\n..BW....\n........\n........\n........\n........";
-      const result1 = OthelloBoard.fromString(boardString1, "B");
+      const result1 = fromString(boardString1, "B");
 
       if (!isInvalidBoardResult(result1)) {
         const moves = result1.getValidMoves();
@@ -433,7 +444,7 @@ describe("OthelloBoard", () => {
         if (move) {
           const success = result1.tryApplyMove(move.position);
 
-          expect(success).toBe(true);
+          expect(isInvalidMoveResult(success)).toBe(false);
           const newBoardString = result1.toString();
           const rows = newBoardString.split("\n");
           const row = rows[3];
@@ -447,12 +458,12 @@ describe("OthelloBoard", () => {
 
       // Test with string position - E4 is (3, 4)
       const boardString2 = "........\n........\n........\n..BW....\n........\n........\n........\n........";
-      const result2 = OthelloBoard.fromString(boardString2, "B");
+      const result2 = fromString(boardString2, "B");
 
       if (!isInvalidBoardResult(result2)) {
         const success = result2.tryApplyMove("E4");
 
-        expect(success).toBe(true);
+        expect(isInvalidMoveResult(success)).toBe(false);
         const newBoardString = result2.toString();
         const rows = newBoardString.split("\n");
         const row = rows[3];
@@ -465,7 +476,7 @@ describe("OthelloBoard", () => {
     });
 
     test("accepts lowercase string position", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const moves = board.getValidMoves();
 
       // Find a valid move at position (2, 3) which is D3
@@ -473,75 +484,141 @@ describe("OthelloBoard", () => {
       expect(move).toBeDefined();
 
       const result = board.tryApplyMove("d3");
-      expect(result).toBe(true);
+      expect(isInvalidMoveResult(result)).toBe(false);
     });
 
     test("returns false for invalid string position format", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const originalString = board.toString();
 
       const result = board.tryApplyMove("XYZ");
-      expect(result).toBe(false);
+      expect(result).toMatchObject({ reason: "unparsable" });
       expect(board.toString()).toBe(originalString);
     });
 
     test("returns false for out of bounds positions (string)", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const originalString = board.toString();
 
       // Column out of bounds
       const result1 = board.tryApplyMove("I1");
-      expect(result1).toBe(false);
+      expect(result1).toMatchObject({ reason: "off-board" });
       expect(board.toString()).toBe(originalString);
 
       // Row out of bounds (board should still be unchanged)
       const result2 = board.tryApplyMove("A9");
-      expect(result2).toBe(false);
+      expect(result2).toMatchObject({ reason: "off-board" });
       expect(board.toString()).toBe(originalString);
 
-      // Row 0 (invalid, board should still be unchanged)
+      // Row 0 (board should still be unchanged)
       const result3 = board.tryApplyMove("A0");
-      expect(result3).toBe(false);
+      expect(result3).toMatchObject({ reason: "off-board" });
       expect(board.toString()).toBe(originalString);
     });
 
     test("correctly maps corner and edge positions (string)", () => {
       // Test A1 (row 0, col 0)
       const boardString1 = ".W......\n........\n........\n........\n........\n........\n........\n........";
-      const result1 = OthelloBoard.fromString(boardString1, "B");
+      const result1 = fromString(boardString1, "B");
 
       if (!isInvalidBoardResult(result1)) {
         const moves = result1.getValidMoves();
         const hasA1Move = moves.moves.some((m) => m.position.row === 0 && m.position.col === 0);
         const moveResult = result1.tryApplyMove("A1");
-        expect(moveResult).toBe(hasA1Move);
+        expect(!isInvalidMoveResult(moveResult)).toBe(hasA1Move);
       }
 
       // Test H8 (row 7, col 7)
       const boardString2 = "........\n........\n........\n........\n........\n........\n.......W\n........";
-      const result2 = OthelloBoard.fromString(boardString2, "B");
+      const result2 = fromString(boardString2, "B");
 
       if (!isInvalidBoardResult(result2)) {
         const moves = result2.getValidMoves();
         const hasH8Move = moves.moves.some((m) => m.position.row === 7 && m.position.col === 7);
         const moveResult = result2.tryApplyMove("H8");
-        expect(moveResult).toBe(hasH8Move);
+        expect(!isInvalidMoveResult(moveResult)).toBe(hasH8Move);
       }
 
       // Test C4 (row 3, col 2) - middle position
-      const board3 = OthelloBoard.createEmpty();
+      const board3 = createEmpty();
       const moves3 = board3.getValidMoves();
       const moveC4 = moves3.moves.find((m) => m.position.row === 3 && m.position.col === 2);
       expect(moveC4).toBeDefined();
 
       const result3 = board3.tryApplyMove("C4");
-      expect(result3).toBe(true);
+      expect(isInvalidMoveResult(result3)).toBe(false);
+    });
+  });
+
+  describe("move results", () => {
+    test("returns the applied move on success", () => {
+      const board = createEmpty();
+      const result = board.tryApplyMove("D3");
+
+      expect(result).toEqual({
+        type: "move",
+        position: { row: 2, col: 3 },
+        flippedPositions: [{ row: 3, col: 3 }],
+        player: "B",
+      });
+      expect(board.getHistory()).toEqual([result]);
+    });
+
+    test("explains why a move was rejected", () => {
+      const board = createEmpty();
+
+      expect(board.tryApplyMove("D")).toEqual({
+        reason: "unparsable",
+        error: '"D" is not a valid position. Use a column A-H and a row 1-8, e.g. "D3".',
+      });
+      expect(board.tryApplyMove("z9")).toEqual({
+        reason: "off-board",
+        error: "Field Z9 is not on the board. Use a column A-H and a row 1-8.",
+      });
+      expect(board.tryApplyMove({ row: 8, col: 0 })).toEqual({
+        reason: "off-board",
+        error: "Row 8, column 0 is not on the board.",
+      });
+      expect(board.tryApplyMove("D4")).toEqual({ reason: "occupied", error: "Field D4 is already occupied." });
+      expect(board.tryApplyMove("A1")).toEqual({
+        reason: "no-flips",
+        error: "Move A1 does not flip any of the opponent's stones.",
+      });
+      expect(board.getHistory()).toEqual([]);
+    });
+
+    test("rejects moves for the player who is not to move", () => {
+      const board = createEmpty();
+
+      expect(board.tryApplyMove("D3", "W")).toEqual({ reason: "wrong-player", error: "It is Black's turn, not White's." });
+      expect(board.getCurrentPlayer()).toBe("B");
+      expect(isInvalidMoveResult(board.tryApplyMove("D3", "B"))).toBe(false);
+    });
+
+    test("rejects moves once the game is over", () => {
+      const board = fromString("BBBBBBBB\n" + "........\n".repeat(6) + "........");
+
+      if (!isInvalidBoardResult(board)) {
+        expect(board.tryApplyMove("A2")).toEqual({ reason: "game-over", error: "The game is already over." });
+      }
+    });
+
+    test("adapts the notation hint to the board size", () => {
+      const board = createEmpty({ size: 6 });
+      expect(board.tryApplyMove("G7")).toMatchObject({
+        reason: "off-board",
+        error: "Field G7 is not on the board. Use a column A-F and a row 1-6.",
+      });
+      expect(board.tryApplyMove("G")).toMatchObject({
+        reason: "unparsable",
+        error: '"G" is not a valid position. Use a column A-F and a row 1-6, e.g. "D3".',
+      });
     });
   });
 
   describe("getGameStatistics", () => {
     test("returns correct stone counts for initial board", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const stats = board.getGameStatistics();
 
       expect(stats.black).toBe(2);
@@ -550,7 +627,7 @@ describe("OthelloBoard", () => {
 
     test("returns correct stone counts after moves", () => {
       const boardString = "........\n........\n........\n..BBB...\n........\n........\n........\n........";
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
 
       if (!isInvalidBoardResult(result)) {
         const stats = result.getGameStatistics();
@@ -561,7 +638,7 @@ describe("OthelloBoard", () => {
 
     test("returns zero for both when board is empty", () => {
       const boardString = "........\n........\n........\n........\n........\n........\n........\n........";
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
 
       if (!isInvalidBoardResult(result)) {
         const stats = result.getGameStatistics();
@@ -573,7 +650,7 @@ describe("OthelloBoard", () => {
 
   describe("toFormattedString", () => {
     test("returns formatted board with labels and borders", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const formatted = board.toFormattedString();
 
       expect(formatted).toContain("   A B C D E F G H");
@@ -584,7 +661,7 @@ describe("OthelloBoard", () => {
     });
 
     test("displays black and white discs with correct symbols", () => {
-      const board = OthelloBoard.createEmpty();
+      const board = createEmpty();
       const formatted = board.toFormattedString();
 
       // Black discs should be displayed as ●
@@ -595,7 +672,7 @@ describe("OthelloBoard", () => {
 
     test("displays empty cells as spaces", () => {
       const boardString = "........\n........\n........\n........\n........\n........\n........\n........";
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
 
       if (!isInvalidBoardResult(result)) {
         const formatted = result.toFormattedString();
@@ -608,7 +685,7 @@ describe("OthelloBoard", () => {
 
     test("formats board correctly with complex setup", () => {
       const boardString = "BBBBBBBB\nWWWWWWWW\nBBBBBBBB\nWWWWWWWW\nBBBBBBBB\nWWWWWWWW\nBBBBBBBB\nWWWWWWWW";
-      const result = OthelloBoard.fromString(boardString);
+      const result = fromString(boardString);
 
       if (!isInvalidBoardResult(result)) {
         const formatted = result.toFormattedString();
@@ -622,5 +699,318 @@ describe("OthelloBoard", () => {
         expect(lines[3]).toContain("○ ○ ○ ○ ○ ○ ○ ○"); // Row 2
       }
     });
+
+    test("marks the valid moves of the player to move only when requested", () => {
+      const board = createEmpty();
+
+      expect(board.toFormattedString()).not.toContain("·");
+
+      const lines = board.toFormattedString({ showValidMoves: true }).split("\n");
+      expect(lines[4]).toBe("3 │      ·        │"); // D3
+      expect(lines[5]).toBe("4 │    · ○ ●      │"); // C4
+      expect(lines[6]).toBe("5 │      ● ○ ·    │"); // F5
+      expect(lines[7]).toBe("6 │        ·      │"); // E6
+    });
+  });
+
+  describe("history", () => {
+    test("records applied moves with player and flipped positions", () => {
+      const board = createEmpty();
+      expect(board.getHistory()).toEqual([]);
+
+      board.tryApplyMove("D3");
+      board.tryApplyMove("C3");
+
+      const history = board.getHistory();
+      expect(history.length).toBe(2);
+      expect(history[0]).toEqual({
+        type: "move",
+        player: "B",
+        position: { row: 2, col: 3 },
+        flippedPositions: [{ row: 3, col: 3 }],
+      });
+      expect(history[1]).toMatchObject({ type: "move", player: "W", position: { row: 2, col: 2 } });
+    });
+
+    test("does not record invalid moves", () => {
+      const board = createEmpty();
+      board.tryApplyMove("A1");
+      expect(board.getHistory()).toEqual([]);
+    });
+
+    test("undo restores board and player to move", () => {
+      const board = createEmpty();
+      const initial = board.toString();
+      board.tryApplyMove("D3");
+      const afterFirst = board.toString();
+      board.tryApplyMove("C3");
+
+      expect(board.undo()).toBe(true);
+      expect(board.toString()).toBe(afterFirst);
+      expect(board.getCurrentPlayer()).toBe("W");
+
+      expect(board.undo()).toBe(true);
+      expect(board.toString()).toBe(initial);
+      expect(board.getCurrentPlayer()).toBe("B");
+
+      expect(board.undo()).toBe(false);
+    });
+
+    test("redo re-applies undone moves", () => {
+      const board = createEmpty();
+      board.tryApplyMove("D3");
+      board.tryApplyMove("C3");
+      const final = board.toString();
+
+      board.undo();
+      board.undo();
+      expect(board.redo()).toBe(true);
+      expect(board.redo()).toBe(true);
+      expect(board.redo()).toBe(false);
+      expect(board.toString()).toBe(final);
+      expect(board.getHistory().length).toBe(2);
+    });
+
+    test("a new move discards the redo stack", () => {
+      const board = createEmpty();
+      board.tryApplyMove("D3");
+      board.undo();
+      board.tryApplyMove("C4");
+
+      expect(board.redo()).toBe(false);
+      expect(board.getHistory()).toMatchObject([{ type: "move", position: { row: 3, col: 2 } }]);
+    });
+
+    test("reset clears history", () => {
+      const board = createEmpty();
+      board.tryApplyMove("D3");
+      board.reset();
+
+      expect(board.getHistory()).toEqual([]);
+      expect(board.undo()).toBe(false);
+    });
+
+    test("getBoardAt rebuilds intermediate positions", () => {
+      const board = createEmpty();
+      const initial = board.toString();
+      board.tryApplyMove("D3");
+      const afterFirst = board.toString();
+      board.tryApplyMove("C3");
+
+      expect(board.getBoardAt(0)?.toString()).toBe(initial);
+      expect(board.getBoardAt(1)?.toString()).toBe(afterFirst);
+      expect(board.getBoardAt(1)?.getCurrentPlayer()).toBe("W");
+      expect(board.getBoardAt(1)?.getHistory().length).toBe(1);
+      expect(board.getBoardAt(2)?.toString()).toBe(board.toString());
+      expect(board.getBoardAt(3)).toBeNull();
+      expect(board.getBoardAt(-1)).toBeNull();
+    });
+
+    test("getBoardAt replays from a custom starting position", () => {
+      const boardString = "........\n........\n........\n..BW....\n........\n........\n........\n........";
+      const board = fromString(boardString, "W");
+
+      if (!isInvalidBoardResult(board)) {
+        board.tryApplyMove({ row: 3, col: 1 });
+        const start = board.getBoardAt(0);
+        expect(start?.toString()).toBe(boardString);
+        expect(start?.getCurrentPlayer()).toBe("W");
+      }
+    });
+
+    test("returned history cannot modify the board", () => {
+      const board = createEmpty();
+      board.tryApplyMove("D3");
+      const entry = board.getHistory()[0];
+      if (entry?.type === "move") {
+        entry.flippedPositions.length = 0;
+      }
+
+      board.undo();
+      expect(board.toString()).toBe(createEmpty().toString());
+    });
+  });
+
+  describe("pass and game over", () => {
+    const mustPassBoard = "WB......\n........\n........\n........\n........\n........\n........\n........";
+
+    test("rejects pass while valid moves exist", () => {
+      const board = createEmpty();
+      expect(board.pass()).toBe(false);
+      expect(board.getCurrentPlayer()).toBe("B");
+      expect(board.getHistory()).toEqual([]);
+    });
+
+    test("passes turn when the current player has no valid moves", () => {
+      const board = fromString(mustPassBoard, "B");
+
+      if (!isInvalidBoardResult(board)) {
+        expect(board.getGameStatus().mustPass).toBe(true);
+        expect(board.pass()).toBe(true);
+        expect(board.getCurrentPlayer()).toBe("W");
+        expect(board.getHistory()).toEqual([{ type: "pass", player: "B" }]);
+        expect(board.getGameStatus().mustPass).toBe(false);
+      }
+    });
+
+    test("undo and redo handle passes", () => {
+      const board = fromString(mustPassBoard, "B");
+
+      if (!isInvalidBoardResult(board)) {
+        board.pass();
+        board.tryApplyMove("C1");
+        const final = board.toString();
+
+        expect(board.undo()).toBe(true);
+        expect(board.undo()).toBe(true);
+        expect(board.getCurrentPlayer()).toBe("B");
+        expect(board.redo()).toBe(true);
+        expect(board.getCurrentPlayer()).toBe("W");
+        expect(board.redo()).toBe(true);
+        expect(board.toString()).toBe(final);
+        expect(board.getBoardAt(1)?.getCurrentPlayer()).toBe("W");
+      }
+    });
+
+    test("is not over at the start", () => {
+      const board = createEmpty();
+      expect(board.isGameOver()).toBe(false);
+      expect(board.getWinner()).toBeNull();
+      expect(board.getGameStatus()).toEqual({
+        currentPlayer: "B",
+        mustPass: false,
+        isGameOver: false,
+        winner: null,
+        statistics: { black: 2, white: 2 },
+      });
+    });
+
+    test("is not over if only the current player must pass", () => {
+      const board = fromString(mustPassBoard, "B");
+
+      if (!isInvalidBoardResult(board)) {
+        expect(board.isGameOver()).toBe(false);
+        expect(board.getWinner()).toBeNull();
+      }
+    });
+
+    test("is over when neither player can move", () => {
+      const boardString = "........\n........\n........\n...BBB..\n........\n........\n........\n........";
+      const board = fromString(boardString, "W");
+
+      if (!isInvalidBoardResult(board)) {
+        expect(board.isGameOver()).toBe(true);
+        expect(board.getWinner()).toBe("B");
+        expect(board.pass()).toBe(false);
+
+        const status = board.getGameStatus();
+        expect(status.isGameOver).toBe(true);
+        expect(status.mustPass).toBe(false);
+        expect(status.winner).toBe("B");
+      }
+    });
+
+    test("reports a draw on equal stone counts", () => {
+      const boardString = "BBBBBBBB\nWWWWWWWW\nBBBBBBBB\nWWWWWWWW\nBBBBBBBB\nWWWWWWWW\nBBBBBBBB\nWWWWWWWW";
+      const board = fromString(boardString);
+
+      if (!isInvalidBoardResult(board)) {
+        expect(board.isGameOver()).toBe(true);
+        expect(board.getWinner()).toBe("draw");
+      }
+    });
+  });
+
+  describe("board sizes and variants", () => {
+    test("creates smaller and larger boards with the start position in the center", () => {
+      const small = createEmpty({ size: 6 });
+      expect(small.getSize()).toBe(6);
+      expect(small.toString()).toBe("......\n......\n..WB..\n..BW..\n......\n......");
+      expect(small.getValidMoves().moves.length).toBe(4);
+
+      const large = createEmpty({ size: 10 });
+      expect(large.getSize()).toBe(10);
+      expect(large.getCell({ row: 4, col: 4 })).toBe("W");
+      expect(large.getCell({ row: 5, col: 4 })).toBe("B");
+      expect(large.tryApplyMove("J10")).toMatchObject({ reason: "no-flips" });
+      expect(large.tryApplyMove("E4")).toMatchObject({ flippedPositions: [{ row: 4, col: 4 }] });
+      expect(large.getGameStatistics()).toEqual({ black: 4, white: 1 });
+    });
+
+    test("rejects invalid board sizes", () => {
+      expect(() => createEmpty({ size: 7 })).toThrow(RangeError);
+      expect(() => createEmpty({ size: 28 })).toThrow(RangeError);
+
+      const result = fromString("...\n...\n...", "B", { size: 3 });
+      expect(isInvalidBoardResult(result)).toBe(true);
+    });
+
+    test("validates the board string against the board size", () => {
+      const result = fromString("......\n......\n..WB..\n..BW..\n......\n......");
+      expect(isInvalidBoardResult(result)).toBe(true);
+      if (isInvalidBoardResult(result)) {
+        expect(result.error).toBe("Board must contain exactly 8 rows.");
+      }
+
+      const board = fromString("......\n......\n..WB..\n..BW..\n......\n......", "B", { size: 6 });
+      expect(isInvalidBoardResult(board)).toBe(false);
+    });
+
+    test("uses the parallel start layout", () => {
+      const board = createEmpty({ startLayout: "parallel" });
+      expect(board.toString().split("\n").slice(3, 5)).toEqual(["...WB...", "...WB..."]);
+
+      board.tryApplyMove("F4");
+      board.reset();
+      expect(board.getCell({ row: 4, col: 3 })).toBe("W");
+    });
+
+    test("keeps size and options in clones and replayed positions", () => {
+      const board = createEmpty({ size: 10, startLayout: "parallel", representation: "array" });
+      board.tryApplyMove("G5");
+
+      expect(board.clone().getOptions()).toEqual(board.getOptions());
+      expect(board.getBoardAt(0)?.getSize()).toBe(10);
+      expect(board.getBoardAt(0)?.toString()).toBe(createEmpty(board.getOptions()).toString());
+    });
+
+    test("allows moves without flips in the no-flip variant", () => {
+      const board = createEmpty({ allowNoFlipMoves: true });
+      // Every empty field next to the four center stones
+      expect(board.getValidMoves().moves.length).toBe(12);
+
+      expect(board.tryApplyMove("C3")).toMatchObject({ flippedPositions: [] });
+      expect(board.getCell({ row: 2, col: 2 })).toBe("B");
+      expect(board.getGameStatistics()).toEqual({ black: 3, white: 2 });
+      expect(board.getHistory()[0]).toMatchObject({ position: { row: 2, col: 2 }, flippedPositions: [] });
+
+      // Capturing moves still flip
+      expect(board.tryApplyMove("F4")).toMatchObject({ flippedPositions: [{ row: 3, col: 4 }] });
+      expect(board.getGameStatistics()).toEqual({ black: 2, white: 4 });
+
+      expect(board.undo()).toBe(true);
+      expect(board.undo()).toBe(true);
+      expect(board.toString()).toBe(createEmpty().toString());
+      expect(board.tryApplyMove("A1")).toMatchObject({ reason: "no-flips" });
+    });
+
+    test("parses positions depending on the board size", () => {
+      expect(OthelloBoard.parsePosition("J10", 10)).toEqual({ row: 9, col: 9 });
+      expect(OthelloBoard.parsePosition("J10")).toBeNull();
+      expect(OthelloBoard.parsePosition("F6", 6)).toEqual({ row: 5, col: 5 });
+      expect(OthelloBoard.parsePosition("G1", 6)).toBeNull();
+      expect(OthelloBoard.parsePosition("A7", 6)).toBeNull();
+      expect(OthelloBoard.parsePosition("A1x")).toBeNull();
+    });
+
+    test("adapts the formatted board to the board size", () => {
+      const lines = createEmpty({ size: 10 }).toFormattedString().split("\n");
+
+      expect(lines[0]).toBe("    A B C D E F G H I J");
+      expect(lines[1]).toBe("   ┌───────────────────┐");
+      expect(lines[2]).toBe(` 1 │${" ".repeat(19)}│`);
+      expect(lines[11]).toBe(`10 │${" ".repeat(19)}│`);
+      expect(lines[12]).toBe("   └───────────────────┘");
+    });
   });
 });
@@ -1,3 +1,6 @@
+import { ArrayBoardState, type BoardState } from "./board-state.js";
+import { BitboardState, MAX_BITBOARD_SIZE } from "./bitboard.js";
+
 export type Player = "B" | "W";
 
 export type Position = {
@@ -10,6 +13,24 @@ export type Move = {
   flippedPositions: Position[];
 };
 
+/**
+ * A move as recorded in the board's history, including the player who made it.
+ */
+export type MoveHistoryEntry = Move & {
+  type: "move";
+  player: Player;
+};
+
+/**
+ * A pass as recorded in the board's history. Passing is only allowed if the player has no valid moves.
+ */
+export type PassHistoryEntry = {
+  type: "pass";
+  player: Player;
+};
+
+export type HistoryEntry = MoveHistoryEntry | PassHistoryEntry;
+
 export type ValidMovesResult = {
   moves: Move[];
 };
@@ -19,6 +40,71 @@ export type GameStatistics = {
   white: number;
 };
 
+/**
+ * Outcome of a finished game. "draw" if both players have the same number of stones.
+ */
+export type GameResult = Player | "draw";
+
+export type GameStatus = {
+  currentPlayer: Player;
+  /**
+   * True if the current player has no valid moves but the opponent has, i.e. the current player must pass.
+   */
+  mustPass: boolean;
+  /**
+   * True if neither player has a valid move left.
+   */
+  isGameOver: boolean;
+  /**
+   * The winner once the game is over, null while the game is still running.
+   */
+  winner: GameResult | null;
+  statistics: GameStatistics;
+};
+
+/**
+ * Internal representation of the stones. Both behave identically; "bitboard" is considerably faster,
+ * "array" is the straightforward reference implementation.
+ */
+export type BoardRepresentation = "array" | "bitboard";
+
+/**
+ * Arrangement of the four starting stones in the center of the board.
+ * "crossed" is the standard Othello start (equal colors on the diagonals),
+ * "parallel" places equal colors next to each other in the same column.
+ */
+export type StartLayout = "crossed" | "parallel";
+
+export type BoardOptions = {
+  /**
+   * Number of rows and columns, an even number between MIN_BOARD_SIZE and MAX_BOARD_SIZE. Defaults to 8.
+   */
+  size?: number;
+  /**
+   * Defaults to "crossed".
+   */
+  startLayout?: StartLayout;
+  /**
+   * Variant for beginners: a stone may also be placed on any empty field next to another stone
+   * even if it does not flip anything. Moves that capture still flip as usual. Defaults to false.
+   */
+  allowNoFlipMoves?: boolean;
+  /**
+   * Defaults to "bitboard". Boards larger than 8x8 always use the "array" representation.
+   */
+  representation?: BoardRepresentation;
+};
+
+export const DEFAULT_BOARD_SIZE = 8;
+export const MIN_BOARD_SIZE = 4;
+/**
+ * Limited by the column letters A-Z.
+ */
+export const MAX_BOARD_SIZE = 26;
+
+export const isValidBoardSize = (size: number): boolean =>
+  Number.isInteger(size) && size >= MIN_BOARD_SIZE && size <= MAX_BOARD_SIZE && size % 2 === 0;
+
 export type InvalidBoardResult = {
   error: string;
 };
@@ -26,32 +112,99 @@ export type InvalidBoardResult = {
 export const isInvalidBoardResult = (input: unknown): input is InvalidBoardResult =>
   typeof input === "object" && input !== null && typeof (input as { error?: unknown }).error === "string";
 
+/**
+ * Why a move was rejected:
+ * - "unparsable": the position string is not in a notation like "D3"
+ * - "off-board": the position is outside the board
+ * - "occupied": there already is a stone on the field
+ * - "no-flips": the move would not flip any of the opponent's stones
+ * - "wrong-player": the move was made for the player who is not to move
+ * - "game-over": neither player can move anymore
+ */
+export type InvalidMoveReason = "unparsable" | "off-board" | "occupied" | "no-flips" | "wrong-player" | "game-over";
+
+const INVALID_MOVE_REASONS: readonly InvalidMoveReason[] = [
+  "unparsable",
+  "off-board",
+  "occupied",
+  "no-flips",
+  "wrong-player",
+  "game-over",
+];
+
+export type InvalidMoveResult = InvalidBoardResult & {
+  reason: InvalidMoveReason;
+};
+
+export const isInvalidMoveResult = (input: unknown): input is InvalidMoveResult =>
+  isInvalidBoardResult(input) && INVALID_MOVE_REASONS.includes((input as { reason?: unknown }).reason as InvalidMoveReason);
+
 export class OthelloBoard {
-  private board: string[][];
+  private static readonly DIRECTIONS: ReadonlyArray<[number, number]> = [
+    [-1, -1],
+    [-1, 0],
+    [-1, 1],
+    [0, -1],
+    [0, 1],
+    [1, -1],
+    [1, 0],
+    [1, 1],
+  ];
+
+  private static readonly INVALID_SIZE_ERROR = `Board size must be an even number between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}.`;
+
+  private readonly size: number;
+  private readonly options: BoardOptions;
+  private state: BoardState;
   private currentPlayer: Player;
-  private static readonly BOARD_SIZE = 8;
-
-  private constructor(board: string[][], currentPlayer: Player = "B") {
-    this.board = board;
+  private initialState: BoardState;
+  private initialPlayer: Player;
+  private history: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+
+  private constructor(state: BoardState, currentPlayer: Player, options: BoardOptions) {
+    this.size = options.size ?? DEFAULT_BOARD_SIZE;
+    this.options = { ...options };
+    this.state = state;
     this.currentPlayer = currentPlayer;
+    this.initialState = state.clone();
+    this.initialPlayer = currentPlayer;
   }
 
-  public static createEmpty(): OthelloBoard {
-    const board = new OthelloBoard([], "B");
+  /**
+   * Creates a board in the starting position. Throws a RangeError if the board size is invalid.
+   */
+  public static createEmpty(options: BoardOptions = {}): OthelloBoard {
+    const size = options.size ?? DEFAULT_BOARD_SIZE;
+    if (!isValidBoardSize(size)) {
+      throw new RangeError(OthelloBoard.INVALID_SIZE_ERROR);
+    }
+
+    const emptyCells = Array.from({ length: size }, () => Array<Player | null>(size).fill(null));
+    const board = new OthelloBoard(OthelloBoard.createState(emptyCells, options), "B", options);
     board.reset();
     return board;
   }
 
-  public static fromString(boardString: string, currentPlayer: Player = "B"): OthelloBoard | InvalidBoardResult {
+  public static fromString(
+    boardString: string,
+    currentPlayer: Player = "B",
+    options: BoardOptions = {},
+  ): OthelloBoard | InvalidBoardResult {
+    const size = options.size ?? DEFAULT_BOARD_SIZE;
+    if (!isValidBoardSize(size)) {
+      return { error: OthelloBoard.INVALID_SIZE_ERROR };
+    }
+
     const rows = boardString.split("\n");
 
-    if (rows.length !== this.BOARD_SIZE) {
-      return { error: "Board must contain exactly 8 rows." };
+    if (rows.length !== size) {
+      return { error: `Board must contain exactly ${size} rows.` };
     }
 
     for (const row of rows) {
-      if (row.length !== this.BOARD_SIZE) {
-        return { error: "Each row must contain exactly 8 fields." };
+      if (row.length !== size) {
+        return { error: `Each row must contain exactly ${size} fields.` };
       }
 
       if (!/^[BW.]+$/.test(row)) {
@@ -59,23 +212,41 @@ export class OthelloBoard {
       }
     }
 
-    const board = rows.map((row) => row.split(""));
-    return new OthelloBoard(board, currentPlayer);
+    const cells = rows.map((row) => row.split("").map((cell) => (cell === "." ? null : (cell as Player))));
+    return new OthelloBoard(OthelloBoard.createState(cells, options), currentPlayer, options);
+  }
+
+  private static createState(cells: (Player | null)[][], options: BoardOptions): BoardState {
+    return options.representation === "array" || cells.length > MAX_BITBOARD_SIZE
+      ? ArrayBoardState.fromCells(cells)
+      : BitboardState.fromCells(cells);
   }
 
   public reset(): void {
-    const board = [
-      [".", ".", ".", ".", ".", ".", ".", "."],
-      [".", ".", ".", ".", ".", ".", ".", "."],
-      [".", ".", ".", ".", ".", ".", ".", "."],
-      [".", ".", ".", "W", "B", ".", ".", "."],
-      [".", ".", ".", "B", "W", ".", ".", "."],
-      [".", ".", ".", ".", ".", ".", ".", "."],
-      [".", ".", ".", ".", ".", ".", ".", "."],
-      [".", ".", ".", ".", ".", ".", ".", "."],
-    ];
-    this.board = board;
+    for (let row = 0; row < this.size; row += 1) {
+      for (let col = 0; col < this.size; col += 1) {
+        this.state.setCell(row, col, null);
+      }
+    }
+
+    const center = this.size / 2;
+    if (this.options.startLayout === "parallel") {
+      this.state.setCell(center - 1, center - 1, "W");
+      this.state.setCell(center - 1, center, "B");
+      this.state.setCell(center, center - 1, "W");
+      this.state.setCell(center, center, "B");
+    } else {
+      this.state.setCell(center - 1, center - 1, "W");
+      this.state.setCell(center - 1, center, "B");
+      this.state.setCell(center, center - 1, "B");
+      this.state.setCell(center, center, "W");
+    }
+
     this.currentPlayer = "B";
+    this.initialState = this.state.clone();
+    this.initialPlayer = "B";
+    this.history = [];
+    this.redoStack = [];
   }
 
   /**
@@ -86,200 +257,450 @@ export class OthelloBoard {
   }
 
   /**
-   * Checks if a move at the given position is valid for the specified player.
-   * Returns the flipped positions if valid, or null if invalid.
+   * Returns the number of rows (and columns) of the board.
+   */
+  public getSize(): number {
+    return this.size;
+  }
+
+  /**
+   * Returns the options the board was created with (size, layout, variant rules, representation).
    */
-  private getMoveResult(position: Position, player: Player): Position[] | null {
-    // Check if position is on board
-    if (!OthelloBoard.isOnBoard(position.row, position.col)) {
+  public getOptions(): BoardOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Returns the player whose stone is on the given position, or null if the field is empty or off the board.
+   */
+  public getCell(position: Position): Player | null {
+    return this.state.getCell(position.row, position.col);
+  }
+
+  /**
+   * Returns an independent copy of the board, including history and undone moves.
+   */
+  public clone(): OthelloBoard {
+    const copy = new OthelloBoard(this.state.clone(), this.currentPlayer, this.options);
+    copy.initialState = this.initialState.clone();
+    copy.initialPlayer = this.initialPlayer;
+    copy.history = this.getHistory();
+    copy.redoStack = this.redoStack.map((entry) => OthelloBoard.copyEntry(entry));
+    return copy;
+  }
+
+  /**
+   * Returns all valid moves for the current player.
+   */
+  public getValidMoves(): ValidMovesResult {
+    return { moves: this.findMoves(this.currentPlayer) };
+  }
+
+  /**
+   * Returns true if neither player has a valid move left.
+   */
+  public isGameOver(): boolean {
+    return !this.hasMoves(this.currentPlayer) && !this.hasMoves(OthelloBoard.opponentOf(this.currentPlayer));
+  }
+
+  /**
+   * Returns the winner of a finished game, or null if the game is not over yet.
+   */
+  public getWinner(): GameResult | null {
+    if (!this.isGameOver()) {
       return null;
     }
 
-    // Check if position is empty
-    const currentCell = this.board[position.row]?.[position.col];
-    if (currentCell !== ".") {
-      return null;
+    const { black, white } = this.getGameStatistics();
+    if (black === white) {
+      return "draw";
     }
 
-    const enemy: Player = player === "B" ? "W" : "B";
-    const directions: Array<[number, number]> = [
-      [-1, -1],
-      [-1, 0],
-      [-1, 1],
-      [0, -1],
-      [0, 1],
-      [1, -1],
-      [1, 0],
-      [1, 1],
-    ];
-
-    const flippedPositions: Position[] = [];
-
-    for (const [deltaRow, deltaCol] of directions) {
-      let r = position.row + deltaRow;
-      let c = position.col + deltaCol;
-      const path: Position[] = [];
-
-      while (OthelloBoard.isOnBoard(r, c) && this.board[r]?.[c] === enemy) {
-        path.push({ row: r, col: c });
-        r += deltaRow;
-        c += deltaCol;
-      }
+    return black > white ? "B" : "W";
+  }
 
-      if (path.length > 0 && OthelloBoard.isOnBoard(r, c) && this.board[r]?.[c] === player) {
-        flippedPositions.push(...path);
-      }
+  /**
+   * Returns a summary of the game state: player to move, whether that player must pass,
+   * whether the game is over (and who won), and the stone counts.
+   */
+  public getGameStatus(): GameStatus {
+    const currentPlayerCanMove = this.hasMoves(this.currentPlayer);
+    const opponentCanMove = this.hasMoves(OthelloBoard.opponentOf(this.currentPlayer));
+    const isGameOver = !currentPlayerCanMove && !opponentCanMove;
+
+    return {
+      currentPlayer: this.currentPlayer,
+      mustPass: !currentPlayerCanMove && opponentCanMove,
+      isGameOver,
+      winner: isGameOver ? this.getWinner() : null,
+      statistics: this.getGameStatistics(),
+    };
+  }
+
+  /**
+   * Returns the current game statistics, including the count of black and white stones on the board.
+   */
+  public getGameStatistics(): GameStatistics {
+    return this.state.count();
+  }
+
+  /**
+   * Attempts to apply a move for the current player at the given position.
+   * If successful, applies the move, flips opponent pieces, switches to the next player, records the move
+   * in the history (discarding any undone moves), and returns the applied move.
+   * If the move is invalid, returns the reason and a human-readable error without modifying the board.
+   * If a player is given, the move is rejected unless it is this player's turn.
+   */
+  public tryApplyMove(position: Position, player?: Player): MoveHistoryEntry | InvalidMoveResult;
+  public tryApplyMove(position: string, player?: Player): MoveHistoryEntry | InvalidMoveResult;
+  public tryApplyMove(position: Position | string, player?: Player): MoveHistoryEntry | InvalidMoveResult {
+    // Parse string position if needed, fields outside the board are checked below
+    const pos = typeof position === "string" ? OthelloBoard.parseCoordinates(position) : position;
+    const lastColumn = String.fromCharCode("A".charCodeAt(0) + this.size - 1);
+
+    if (pos === null) {
+      return {
+        reason: "unparsable",
+        error: `"${position}" is not a valid position. Use a column A-${lastColumn} and a row 1-${this.size}, e.g. "D3".`,
+      };
+    }
+
+    if (!this.isOnBoard(pos)) {
+      return {
+        reason: "off-board",
+        error:
+          typeof position === "string"
+            ? `Field ${position.toUpperCase()} is not on the board. Use a column A-${lastColumn} and a row 1-${this.size}.`
+            : `Row ${pos.row}, column ${pos.col} is not on the board.`,
+      };
     }
 
-    return flippedPositions.length > 0 ? flippedPositions : null;
+    // Verify the move is valid for the current player
+    const flippedPositions =
+      player === undefined || player === this.currentPlayer ? this.getFlips(pos, this.currentPlayer) : null;
+    if (flippedPositions === null) {
+      return this.getInvalidMoveResult(pos, player);
+    }
+
+    const move: MoveHistoryEntry = { type: "move", position: { ...pos }, flippedPositions, player: this.currentPlayer };
+    this.record(move);
+
+    // Return a copy so that callers cannot modify the history
+    return {
+      ...move,
+      position: { ...move.position },
+      flippedPositions: move.flippedPositions.map((flipped) => ({ ...flipped })),
+    };
   }
 
   /**
-   * Returns all valid moves for the current player.
+   * Explains why a move on the board failed. Only called for rejected moves, so that the
+   * checks for the end of the game do not slow down applying valid moves.
    */
-  public getValidMoves(): ValidMovesResult {
-    const moves: Move[] = [];
+  private getInvalidMoveResult(position: Position, player: Player | undefined): InvalidMoveResult {
+    const field = OthelloBoard.formatPosition(position);
 
-    for (let row = 0; row < OthelloBoard.BOARD_SIZE; row += 1) {
-      for (let col = 0; col < OthelloBoard.BOARD_SIZE; col += 1) {
-        const flippedPositions = this.getMoveResult({ row, col }, this.currentPlayer);
+    if (this.isGameOver()) {
+      return { reason: "game-over", error: "The game is already over." };
+    }
+    if (player !== undefined && player !== this.currentPlayer) {
+      return {
+        reason: "wrong-player",
+        error: `It is ${OthelloBoard.playerName(this.currentPlayer)}'s turn, not ${OthelloBoard.playerName(player)}'s.`,
+      };
+    }
+    if (this.state.getCell(position.row, position.col) !== null) {
+      return { reason: "occupied", error: `Field ${field} is already occupied.` };
+    }
+    return { reason: "no-flips", error: `Move ${field} does not flip any of the opponent's stones.` };
+  }
 
+  /**
+   * Passes the turn to the opponent. Only legal if the current player has no valid moves
+   * and the game is not over yet. Returns false without modifying the board otherwise.
+   */
+  public pass(): boolean {
+    if (this.hasMoves(this.currentPlayer) || this.isGameOver()) {
+      return false;
+    }
+
+    this.record({ type: "pass", player: this.currentPlayer });
+    return true;
+  }
+
+  /*
+   * The board state implements the standard rules. The following methods add the moves
+   * that are only legal in the no-flip variant.
+   */
+
+  private getFlips(position: Position, player: Player): Position[] | null {
+    const flips = this.state.getFlips(position, player);
+    if (flips !== null || !this.options.allowNoFlipMoves) {
+      return flips;
+    }
+
+    return this.isNoFlipMove(position) ? [] : null;
+  }
+
+  private findMoves(player: Player): Move[] {
+    if (!this.options.allowNoFlipMoves) {
+      return this.state.findMoves(player);
+    }
+
+    const moves: Move[] = [];
+    for (let row = 0; row < this.size; row += 1) {
+      for (let col = 0; col < this.size; col += 1) {
+        const flippedPositions = this.getFlips({ row, col }, player);
         if (flippedPositions !== null) {
-          moves.push({
-            position: { row, col },
-            flippedPositions,
-          });
+          moves.push({ position: { row, col }, flippedPositions });
         }
       }
     }
+    return moves;
+  }
 
-    return { moves };
+  private hasMoves(player: Player): boolean {
+    if (this.state.hasMoves(player)) {
+      return true;
+    }
+
+    if (!this.options.allowNoFlipMoves) {
+      return false;
+    }
+
+    for (let row = 0; row < this.size; row += 1) {
+      for (let col = 0; col < this.size; col += 1) {
+        if (this.isNoFlipMove({ row, col })) {
+          return true;
+        }
+      }
+    }
+    return false;
   }
 
   /**
-   * Returns the current game statistics, including the count of black and white stones on the board.
+   * An empty field next to at least one stone of either color.
    */
-  public getGameStatistics(): GameStatistics {
-    let black = 0;
-    let white = 0;
-
-    for (let row = 0; row < OthelloBoard.BOARD_SIZE; row += 1) {
-      for (let col = 0; col < OthelloBoard.BOARD_SIZE; col += 1) {
-        const cell = this.board[row]?.[col];
-        if (cell === "B") {
-          black += 1;
-        } else if (cell === "W") {
-          white += 1;
-        }
-      }
+  private isNoFlipMove(position: Position): boolean {
+    if (!this.isOnBoard(position) || this.state.getCell(position.row, position.col) !== null) {
+      return false;
     }
 
-    return { black, white };
+    return OthelloBoard.DIRECTIONS.some(
+      ([deltaRow, deltaCol]) => this.state.getCell(position.row + deltaRow, position.col + deltaCol) !== null,
+    );
+  }
+
+  private isOnBoard(position: Position): boolean {
+    return position.row >= 0 && position.row < this.size && position.col >= 0 && position.col < this.size;
+  }
+
+  private record(entry: HistoryEntry): void {
+    this.applyEntry(entry);
+    this.history.push(entry);
+
+    // A new move invalidates any moves that were undone before
+    this.redoStack = [];
   }
 
   /**
-   * Attempts to apply a move for the current player at the given position.
-   * If successful, applies the move, flips opponent pieces, switches to the next player, and returns true.
-   * If the move is invalid, returns false without modifying the board.
+   * Returns all moves and passes since the initial position, oldest first.
    */
-  public tryApplyMove(position: Position): boolean;
-  public tryApplyMove(position: string): boolean;
-  public tryApplyMove(position: Position | string): boolean {
-    // Parse string position if needed
-    const pos = typeof position === "string" ? OthelloBoard.parsePosition(position) : position;
+  public getHistory(): HistoryEntry[] {
+    return this.history.map((entry) => OthelloBoard.copyEntry(entry));
+  }
 
-    if (pos === null) {
+  /**
+   * Takes back the last move or pass, restoring the flipped discs and the player to move.
+   * Returns false if there is no move to undo.
+   */
+  public undo(): boolean {
+    const entry = this.history.pop();
+    if (!entry) {
       return false;
     }
 
-    // Verify the move is valid for the current player
-    const flippedPositions = this.getMoveResult(pos, this.currentPlayer);
-    if (flippedPositions === null) {
+    this.revertEntry(entry);
+    this.redoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * Re-applies the last move or pass that was taken back with undo.
+   * Returns false if there is no move to redo.
+   */
+  public redo(): boolean {
+    const entry = this.redoStack.pop();
+    if (!entry) {
       return false;
     }
 
-    // Place the player's piece at the move position
-    const moveRow = this.board[pos.row];
-    if (moveRow) {
-      moveRow[pos.col] = this.currentPlayer;
+    this.applyEntry(entry);
+    this.history.push(entry);
+    return true;
+  }
+
+  /**
+   * Rebuilds the position after the given number of moves by replaying the history
+   * from the initial position. 0 returns the initial position, getHistory().length the current one.
+   * The returned board is independent of this board and carries the replayed part of the history.
+   * Returns null if the move number is out of range.
+   */
+  public getBoardAt(moveNumber: number): OthelloBoard | null {
+    if (!Number.isInteger(moveNumber) || moveNumber < 0 || moveNumber > this.history.length) {
+      return null;
     }
 
-    // Flip all opponent pieces (use the validated flipped positions)
-    for (const flippedPos of flippedPositions) {
-      const row = this.board[flippedPos.row];
-      if (row) {
-        row[flippedPos.col] = this.currentPlayer;
-      }
+    const board = new OthelloBoard(this.initialState.clone(), this.initialPlayer, this.options);
+    for (const entry of this.history.slice(0, moveNumber)) {
+      const copy = OthelloBoard.copyEntry(entry);
+      board.applyEntry(copy);
+      board.history.push(copy);
     }
 
-    // Switch to the other player
-    this.currentPlayer = this.currentPlayer === "B" ? "W" : "B";
+    return board;
+  }
 
-    return true;
+  /**
+   * Places the disc of the entry's player, flips the captured discs and hands the turn to the opponent.
+   */
+  private applyEntry(entry: HistoryEntry): void {
+    this.currentPlayer = OthelloBoard.opponentOf(entry.player);
+    if (entry.type === "pass") {
+      return;
+    }
+
+    this.state.setCell(entry.position.row, entry.position.col, entry.player);
+    for (const flippedPos of entry.flippedPositions) {
+      this.state.setCell(flippedPos.row, flippedPos.col, entry.player);
+    }
+  }
+
+  /**
+   * Exact inverse of applyEntry.
+   */
+  private revertEntry(entry: HistoryEntry): void {
+    this.currentPlayer = entry.player;
+    if (entry.type === "pass") {
+      return;
+    }
+
+    const opponent = OthelloBoard.opponentOf(entry.player);
+    this.state.setCell(entry.position.row, entry.position.col, null);
+    for (const flippedPos of entry.flippedPositions) {
+      this.state.setCell(flippedPos.row, flippedPos.col, opponent);
+    }
+  }
+
+  private static copyEntry(entry: HistoryEntry): HistoryEntry {
+    if (entry.type === "pass") {
+      return { ...entry };
+    }
+
+    return {
+      type: "move",
+      position: { ...entry.position },
+      flippedPositions: entry.flippedPositions.map((pos) => ({ ...pos })),
+      player: entry.player,
+    };
   }
 
   public toString(): string {
-    return this.board.map((row) => row.join("")).join("\n");
+    return this.getRows()
+      .map((row) => row.map((cell) => cell ?? ".").join(""))
+      .join("\n");
+  }
+
+  private getRows(): (Player | null)[][] {
+    return Array.from({ length: this.size }, (_, row) =>
+      Array.from({ length: this.size }, (_, col) => this.state.getCell(row, col)),
+    );
   }
 
   /**
    * Returns a formatted string representation of the board with row/column labels
-   * and visual disc representations.
+   * and visual disc representations. With showValidMoves, the valid moves of the player
+   * to move are marked with "·".
    */
-  public toFormattedString(): string {
+  public toFormattedString(options: { showValidMoves?: boolean } = {}): string {
     const lines: string[] = [];
-
-    lines.push("   A B C D E F G H");
-    lines.push("  ┌───────────────┐");
-
-    for (let row = 0; row < OthelloBoard.BOARD_SIZE; row++) {
-      const rowNum = row + 1;
-      const cells =
-        this.board[row]
-          ?.map((cell) => {
-            if (cell === "B") return "●"; // Black disc
-            if (cell === "W") return "○"; // White disc
-            return " "; // Empty
-          })
-          .join(" ") || "";
+    // Row numbers are right-aligned, boards with more than 9 rows need a wider label column
+    const labelWidth = String(this.size).length;
+    const indent = " ".repeat(labelWidth + 1);
+    const border = "─".repeat(2 * this.size - 1);
+    const letters = Array.from({ length: this.size }, (_, col) => String.fromCharCode("A".charCodeAt(0) + col));
+    const validMoves = new Set(
+      options.showValidMoves ? this.getValidMoves().moves.map((move) => `${move.position.row},${move.position.col}`) : [],
+    );
+
+    lines.push(`${indent} ${letters.join(" ")}`);
+    lines.push(`${indent}┌${border}┐`);
+
+    for (const [row, boardRow] of this.getRows().entries()) {
+      const rowNum = String(row + 1).padStart(labelWidth);
+      const cells = boardRow
+        .map((cell, col) => {
+          if (cell === "B") return "●"; // Black disc
+          if (cell === "W") return "○"; // White disc
+          if (validMoves.has(`${row},${col}`)) return "·"; // Valid move
+          return " "; // Empty
+        })
+        .join(" ");
       lines.push(`${rowNum} │${cells}│`);
     }
 
-    lines.push("  └───────────────┘");
+    lines.push(`${indent}└${border}┘`);
 
     return lines.join("\n");
   }
 
-  private static isOnBoard(row: number, col: number): boolean {
-    return row >= 0 && row < OthelloBoard.BOARD_SIZE && col >= 0 && col < OthelloBoard.BOARD_SIZE;
+  private static opponentOf(player: Player): Player {
+    return player === "B" ? "W" : "B";
+  }
+
+  private static playerName(player: Player): string {
+    return player === "B" ? "Black" : "White";
+  }
+
+  /**
+   * Formats a Position object as a string position like "A1" (inverse of parsePosition).
+   */
+  public static formatPosition(position: Position): string {
+    return `${String.fromCharCode("A".charCodeAt(0) + position.col)}${position.row + 1}`;
   }
 
   /**
    * Parses a string position like "A1" into a Position object.
    * Column: A-H (case insensitive) maps to 0-7
    * Row: 1-8 maps to 0-7
-   * Returns null if the format is invalid.
+   * For other board sizes, the range of letters and numbers adapts (e.g. A-J and 1-10 on a 10x10 board).
+   * Returns null if the format is invalid or the position is not on the board.
    */
-  private static parsePosition(position: string): Position | null {
-    if (position.length < 2 || position.length > 3) {
-      return null;
-    }
-
-    const colChar = position[0]?.toUpperCase();
-    const rowStr = position.slice(1);
-
-    // Parse column (A-H)
-    if (!colChar || colChar < "A" || colChar > "H") {
+  public static parsePosition(position: string, size: number = DEFAULT_BOARD_SIZE): Position | null {
+    const pos = OthelloBoard.parseCoordinates(position);
+    if (pos === null || pos.row < 0 || pos.row >= size || pos.col >= size) {
       return null;
     }
-    const col = colChar.charCodeAt(0) - "A".charCodeAt(0);
+    return pos;
+  }
 
-    // Parse row (1-8)
-    const row = parseInt(rowStr, 10);
-    if (isNaN(row) || row < 1 || row > 8) {
+  /**
+   * Parses the column letter (A-Z) and the row number of a string position without checking that
+   * the field is on the board. Row 0 yields row -1. Returns null if the format is invalid.
+   */
+  private static parseCoordinates(position: string): Position | null {
+    const match = /^([a-z])(\d{1,2})$/i.exec(position);
+    if (!match) {
       return null;
     }
-
-    return { row: row - 1, col };
+    return { row: parseInt(match[2]!, 10) - 1, col: match[1]!.toUpperCase().charCodeAt(0) - "A".charCodeAt(0) };
   }
 }
+
+export * from "./notation.js";
+export * from "./engine.js";
+export * from "./analysis.js";
+export * from "./clock.js";
+export * from "./openings.js";
+export * from "./game-manager.js";
+export * from "./endgame.js";
@@ -0,0 +1,157 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, isInvalidBoardResult } from "./index.js";
+import { exportPosition, exportTranscript, importPosition, importTranscript } from "./notation.js";
+
+describe("position notation", () => {
+  test("exports the starting position", () => {
+    const board = OthelloBoard.createEmpty();
+    expect(exportPosition(board)).toBe("8/8/8/3WB3/3BW3/8/8/8 B");
+  });
+
+  test("exports the player to move", () => {
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("D3");
+    expect(exportPosition(board)).toBe("8/8/3B4/3BB3/3BW3/8/8/8 W");
+  });
+
+  test("round-trips a position including the player to move", () => {
+    const boardString = "WB......\n........\n........\n...BBB..\n........\n........\n........\nBBBBBBBB";
+    const board = OthelloBoard.fromString(boardString, "W");
+
+    if (!isInvalidBoardResult(board)) {
+      const imported = importPosition(exportPosition(board));
+      expect(isInvalidBoardResult(imported)).toBe(false);
+      if (!isInvalidBoardResult(imported)) {
+        expect(imported.toString()).toBe(boardString);
+        expect(imported.getCurrentPlayer()).toBe("W");
+      }
+    }
+  });
+
+  test("rejects a position without player to move", () => {
+    const result = importPosition("8/8/8/3WB3/3BW3/8/8/8");
+    expect(isInvalidBoardResult(result)).toBe(true);
+  });
+
+  test("rejects a position with an invalid player", () => {
+    const result = importPosition("8/8/8/3WB3/3BW3/8/8/8 X");
+    expect(isInvalidBoardResult(result)).toBe(true);
+  });
+
+  test("rejects a position with wrong row lengths", () => {
+    const result = importPosition("8/8/8/3WB4/3BW3/8/8/8 B");
+    expect(isInvalidBoardResult(result)).toBe(true);
+    if (isInvalidBoardResult(result)) {
+      expect(result.error).toBe("Each row must contain exactly 8 fields.");
+    }
+  });
+
+  test("takes the board size from the number of rows", () => {
+    const board = OthelloBoard.createEmpty({ size: 6 });
+    expect(exportPosition(board)).toBe("6/6/2WB2/2BW2/6/6 B");
+
+    const imported = importPosition("6/6/2WB2/2BW2/6/6 B");
+    expect(isInvalidBoardResult(imported)).toBe(false);
+    if (!isInvalidBoardResult(imported)) {
+      expect(imported.getSize()).toBe(6);
+      expect(imported.toString()).toBe(board.toString());
+    }
+  });
+});
+
+describe("transcript notation", () => {
+  test("exports headers and move list", () => {
+    const board = OthelloBoard.createEmpty();
+    board.tryApplyMove("F5");
+    board.tryApplyMove("D6");
+    board.tryApplyMove("C3");
+
+    const transcript = exportTranscript(board, { Black: "Alice", White: "Bot", Date: "2026.02.17" });
+    expect(transcript).toBe('[Black "Alice"]\n[White "Bot"]\n[Date "2026.02.17"]\n[Result "*"]\n\nf5d6c3\n');
+  });
+
+  test("writes passes, the final result and a non-standard start position", () => {
+    const board = OthelloBoard.fromString(
+      "WB......\n........\n........\n........\n........\n........\n........\n........",
+      "B",
+    );
+
+    if (!isInvalidBoardResult(board)) {
+      board.pass();
+      board.tryApplyMove("C1");
+
+      const transcript = exportTranscript(board);
+      expect(transcript).toBe('[Result "0-3"]\n[Position "WB6/8/8/8/8/8/8/8 B"]\n\n--c1\n');
+    }
+  });
+
+  test("round-trips a game with history", () => {
+    const board = OthelloBoard.createEmpty();
+    for (const move of ["F5", "D6", "C3", "D3", "C4"]) {
+      board.tryApplyMove(move);
+    }
+
+    const result = importTranscript(exportTranscript(board, { Black: 'Alice "The Flipper"' }));
+    expect(isInvalidBoardResult(result)).toBe(false);
+    if (!isInvalidBoardResult(result)) {
+      expect(result.headers.Black).toBe('Alice "The Flipper"');
+      expect(result.board.toString()).toBe(board.toString());
+      expect(result.board.getHistory()).toEqual(board.getHistory());
+      expect(result.board.undo()).toBe(true);
+    }
+  });
+
+  test("accepts upper case moves spread over several lines", () => {
+    const result = importTranscript('[Event "Club night"]\n\nF5 D6\nC3\n');
+    expect(isInvalidBoardResult(result)).toBe(false);
+    if (!isInvalidBoardResult(result)) {
+      expect(result.headers).toEqual({ Event: "Club night" });
+      expect(result.board.getHistory().length).toBe(3);
+    }
+  });
+
+  test("rejects illegal moves", () => {
+    const result = importTranscript("f5a1");
+    expect(isInvalidBoardResult(result)).toBe(true);
+    if (isInvalidBoardResult(result)) {
+      expect(result.error).toBe("Illegal move a1 (move 2).");
+    }
+  });
+
+  test("rejects unparsable move lists", () => {
+    const result = importTranscript("f5??");
+    expect(isInvalidBoardResult(result)).toBe(true);
+    if (isInvalidBoardResult(result)) {
+      expect(result.error).toBe("Unexpected characters in move list: ??");
+    }
+  });
+
+  test("rejects malformed header lines", () => {
+    const result = importTranscript("[Black Alice]\n\nf5");
+    expect(isInvalidBoardResult(result)).toBe(true);
+  });
+
+  test("round-trips games on other board sizes and with the no-flip rule", () => {
+    const board = OthelloBoard.createEmpty({ size: 10, allowNoFlipMoves: true });
+    board.tryApplyMove("D7");
+    board.tryApplyMove("G5");
+    board.tryApplyMove("D4");
+
+    const transcript = exportTranscript(board);
+    expect(transcript).toContain('[Variant "no-flip"]');
+    expect(transcript).toContain('[Position "10/10/10/10/4WB4/4BW4/10/10/10/10 B"]');
+    expect(transcript).toContain("d7g5d4");
+
+    const result = importTranscript(transcript);
+    expect(isInvalidBoardResult(result)).toBe(false);
+    if (!isInvalidBoardResult(result)) {
+      expect(result.board.getSize()).toBe(10);
+      expect(result.board.toString()).toBe(board.toString());
+    }
+  });
+
+  test("rejects unknown variants", () => {
+    const result = importTranscript('[Variant "reversi"]\n\nf5');
+    expect(isInvalidBoardResult(result)).toBe(true);
+  });
+});
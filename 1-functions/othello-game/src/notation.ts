@@ -0,0 +1,160 @@
+import {
+  OthelloBoard,
+  isInvalidBoardResult,
+  isInvalidMoveResult,
+  type BoardOptions,
+  type InvalidBoardResult,
+  type Player,
+} from "./index.js";
+
+/**
+ * Metadata of a game transcript, e.g. { Black: "Alice", White: "Bot", Date: "2026.02.17", Result: "36-28" }.
+ */
+export type TranscriptHeaders = Record<string, string>;
+
+export type Transcript = {
+  headers: TranscriptHeaders;
+  /**
+   * Board with all moves of the transcript applied, so its history contains the whole game.
+   */
+  board: OthelloBoard;
+};
+
+/**
+ * Notation for a pass in the move list of a transcript.
+ */
+export const PASS_NOTATION = "--";
+
+/**
+ * Value of the Variant header for games played with the no-flip rule (BoardOptions.allowNoFlipMoves).
+ */
+export const NO_FLIP_VARIANT = "no-flip";
+
+/**
+ * Exports the board as a single-line position string. Rows are separated by "/", runs of empty fields
+ * are written as their length and the player to move follows after a space.
+ * The standard starting position is "8/8/8/3WB3/3BW3/8/8/8 B".
+ */
+export function exportPosition(board: OthelloBoard): string {
+  const rows = board
+    .toString()
+    .split("\n")
+    .map((row) => row.replace(/\.+/g, (empty) => String(empty.length)));
+
+  return `${rows.join("/")} ${board.getCurrentPlayer()}`;
+}
+
+/**
+ * Parses a position string created by exportPosition, including the player to move.
+ * The board size is taken from the number of rows; the size in the options is ignored.
+ */
+export function importPosition(position: string, options: BoardOptions = {}): OthelloBoard | InvalidBoardResult {
+  const [rows, player, ...rest] = position.trim().split(/\s+/);
+  if (!rows || (player !== "B" && player !== "W") || rest.length > 0) {
+    return { error: 'Position must contain the board and the player to move (B or W), e.g. "8/8/8/3WB3/3BW3/8/8/8 B".' };
+  }
+
+  const boardRows = rows.split("/").map((row) => row.replace(/\d+/g, (count) => ".".repeat(Number(count))));
+
+  return OthelloBoard.fromString(boardRows.join("\n"), player as Player, { ...options, size: boardRows.length });
+}
+
+/**
+ * Exports the board's history as a game transcript: header lines like [Black "Alice"] followed by
+ * an empty line and the move list (e.g. "f5d6c3--d3"), passes written as "--".
+ * A Result header ("36-28" when the game is over, "*" otherwise) is added if not given.
+ * A Position header is added if the game did not start from the standard 8x8 starting position,
+ * a Variant header if the game was played with the no-flip rule.
+ */
+export function exportTranscript(board: OthelloBoard, headers: TranscriptHeaders = {}): string {
+  const allHeaders: TranscriptHeaders = { ...headers };
+
+  if (allHeaders.Result === undefined) {
+    const { black, white } = board.getGameStatistics();
+    allHeaders.Result = board.isGameOver() ? `${black}-${white}` : "*";
+  }
+
+  if (board.getOptions().allowNoFlipMoves && allHeaders.Variant === undefined) {
+    allHeaders.Variant = NO_FLIP_VARIANT;
+  }
+
+  const start = board.getBoardAt(0);
+  if (start && allHeaders.Position === undefined) {
+    const startPosition = exportPosition(start);
+    if (startPosition !== exportPosition(OthelloBoard.createEmpty())) {
+      allHeaders.Position = startPosition;
+    }
+  }
+
+  const headerLines = Object.entries(allHeaders).map(([name, value]) => `[${name} "${escapeHeaderValue(value)}"]`);
+  const moves = board
+    .getHistory()
+    .map((entry) => (entry.type === "pass" ? PASS_NOTATION : OthelloBoard.formatPosition(entry.position).toLowerCase()))
+    .join("");
+
+  return [...headerLines, "", moves].join("\n") + "\n";
+}
+
+/**
+ * Parses a transcript created by exportTranscript and replays its moves, starting from the
+ * Position header if present and from the standard starting position otherwise.
+ */
+export function importTranscript(transcript: string): Transcript | InvalidBoardResult {
+  const headers: TranscriptHeaders = {};
+  let moveText = "";
+
+  for (const line of transcript.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === "") {
+      continue;
+    }
+
+    const header = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(trimmed);
+    if (header) {
+      headers[header[1] ?? ""] = unescapeHeaderValue(header[2] ?? "");
+      continue;
+    }
+
+    if (trimmed.startsWith("[")) {
+      return { error: `Invalid header line: ${trimmed}` };
+    }
+
+    moveText += trimmed.replace(/\s+/g, "");
+  }
+
+  if (headers.Variant !== undefined && headers.Variant !== NO_FLIP_VARIANT) {
+    return { error: `Unsupported variant: ${headers.Variant}` };
+  }
+
+  const options: BoardOptions = { allowNoFlipMoves: headers.Variant === NO_FLIP_VARIANT };
+  const board = headers.Position !== undefined ? importPosition(headers.Position, options) : OthelloBoard.createEmpty(options);
+  if (isInvalidBoardResult(board)) {
+    return board;
+  }
+
+  const tokenPattern = /[a-z][1-9]\d?|--/iy;
+  let moveNumber = 0;
+  while (tokenPattern.lastIndex < moveText.length) {
+    const offset = tokenPattern.lastIndex;
+    const token = tokenPattern.exec(moveText)?.[0];
+    if (token === undefined) {
+      return { error: `Unexpected characters in move list: ${moveText.slice(offset)}` };
+    }
+
+    moveNumber += 1;
+    const applied = token === PASS_NOTATION ? board.pass() : !isInvalidMoveResult(board.tryApplyMove(token));
+    if (!applied) {
+      return { error: `Illegal move ${token} (move ${moveNumber}).` };
+    }
+  }
+
+  return { headers, board };
+}
+
+function escapeHeaderValue(value: string): string {
+  return value.replace(/[\\"]/g, (char) => `\\${char}`);
+}
+
+function unescapeHeaderValue(value: string): string {
+  return value.replace(/\\(.)/g, "$1");
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "vitest";
+import { OthelloBoard, createSeededRandom, createStrategy, isInvalidBoardResult, type Position } from "./index.js";
+import { OpeningBook, createStandardOpeningBook, parseOpeningBook } from "./openings.js";
+
+function play(moves: string[], options = {}): OthelloBoard {
+  const board = OthelloBoard.createEmpty(options);
+  for (const move of moves) {
+    board.tryApplyMove(move);
+  }
+  return board;
+}
+
+function format(positions: Position[]): string[] {
+  return positions.map((position) => OthelloBoard.formatPosition(position)).sort();
+}
+
+describe("opening book", () => {
+  test("reads the standard openings", () => {
+    const book = createStandardOpeningBook();
+    expect(book.getOpeningName(play(["F5", "F4"]))).toBe("Parallel");
+    expect(book.getOpeningName(play(["F5", "F6"]))).toBe("Diagonal");
+    expect(book.getOpeningName(play(["F5", "F6", "E6", "F4", "E3"]))).toBe("Rabbit");
+    expect(book.getOpeningName(play(["F5", "D6", "C3", "D3", "C4"]))).toBe("Tiger");
+    expect(book.getOpeningName(play(["F5", "D6", "C5", "F4", "E3", "C6", "D3", "F6", "E6", "D7"]))).toBe("Rose");
+  });
+
+  test("reports the longest named line, also after the game has left the book", () => {
+    const book = createStandardOpeningBook();
+    expect(book.getOpeningName(play([]))).toBeNull();
+    expect(book.getOpeningName(play(["F5"]))).toBeNull();
+    expect(book.getOpeningName(play(["F5", "D6", "C3"]))).toBe("Perpendicular");
+    expect(book.getOpeningName(play(["F5", "D6", "C3", "D3", "C4", "F4", "C5"]))).toBe("Tiger");
+  });
+
+  test("recognizes the openings in all orientations of the board", () => {
+    const book = createStandardOpeningBook();
+    // The Tiger mirrored at the diagonal, rotated by 180 degrees and mirrored at the other diagonal
+    expect(book.getOpeningName(play(["E6", "F4", "C3", "C4", "D3"]))).toBe("Tiger");
+    expect(book.getOpeningName(play(["C4", "E3", "F6", "E6", "F5"]))).toBe("Tiger");
+    expect(book.getOpeningName(play(["D3", "C5", "F6", "F5", "E6"]))).toBe("Tiger");
+  });
+
+  test("suggests the book moves in the orientation of the game", () => {
+    const book = createStandardOpeningBook();
+    expect(format(book.getBookMoves(play([])))).toEqual(["C4", "D3", "E6", "F5"]);
+    expect(format(book.getBookMoves(play(["F5"])))).toEqual(["D6", "F4", "F6"]);
+    expect(format(book.getBookMoves(play(["E6", "F4", "C3"])))).toEqual(["C4"]);
+    expect(book.getBookMoves(play(["F5", "D6", "C3", "D3", "C4"]))).toEqual([]);
+  });
+
+  test("only applies to games from the standard starting position", () => {
+    const book = createStandardOpeningBook();
+    expect(book.getOpeningName(play(["C4", "C3"], { startLayout: "parallel" }))).toBeNull();
+    expect(book.getBookMoves(play([], { size: 6 }))).toEqual([]);
+  });
+
+  test("rejects invalid lines", () => {
+    const error = (text: string) => {
+      const book = parseOpeningBook(text);
+      return isInvalidBoardResult(book) ? book.error : null;
+    };
+    expect(error("# comment\n\nf5d6 Perpendicular\n")).toBeNull();
+    expect(error("f5d6")).toBe("Invalid opening in line 1: f5d6");
+    expect(error("f5\nf5f5 Twice")).toMatch(/^Invalid opening in line 1/);
+    expect(error("f5d6 Perpendicular\nf5f5 Twice")).toBe("Line 2: Illegal move f5 (move 2) in the opening Twice.");
+  });
+
+  test("lets the strategies play book moves", () => {
+    const book = new OpeningBook();
+    book.addLine("Test", ["F5", "F6", "E6", "F4"]);
+    const strategy = createStrategy({ strategy: "greedy", book, random: createSeededRandom(1) });
+
+    const black = strategy.chooseMove(OthelloBoard.createEmpty());
+    expect(black?.score).toBe(0);
+    expect(["C4", "D3", "E6", "F5"]).toContain(black && OthelloBoard.formatPosition(black.position));
+    expect(strategy.chooseMove(play(["F5", "F6", "E6"]))).toEqual({ position: { row: 3, col: 5 }, score: 0 });
+
+    // After the book, the greedy strategy flips as many discs as possible
+    const game = play(["F5", "F6", "E6", "F4"]);
+    expect(strategy.chooseMove(game)?.score).toBe(createStrategy({ strategy: "greedy" }).chooseMove(game)?.score);
+  });
+});
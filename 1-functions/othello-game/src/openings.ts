@@ -0,0 +1,218 @@
+import { OthelloBoard, isInvalidBoardResult, isInvalidMoveResult, type InvalidBoardResult, type Position } from "./index.js";
+import type { EngineMove, Strategy } from "./engine.js";
+
+/**
+ * Well-known openings on the standard board, in the format read by parseOpeningBook.
+ */
+export const STANDARD_OPENINGS = `# Black's first move is always F5 here, the other first moves are symmetric to it
+f5d6 Perpendicular
+f5f4 Parallel
+f5f6 Diagonal
+f5d6c3d3c4 Tiger
+f5d6c5f4e3c6d3f6e6d7 Rose
+f5f6e6f4e3 Rabbit
+`;
+
+type BookNode = {
+  name: string | null;
+  /**
+   * The next book moves by their position in the book's orientation, e.g. "D6".
+   */
+  children: Map<string, BookNode>;
+};
+
+/**
+ * The book nodes a game has passed through in one orientation of the board, starting with the root.
+ */
+type BookPath = {
+  transform: Symmetry;
+  nodes: BookNode[];
+};
+
+type Symmetry = (position: Position, size: number) => Position;
+
+/**
+ * The 8 symmetries of the square board: the rotations by 0, 90, 180 and 270 degrees and the
+ * reflections at the horizontal and vertical middle lines and at both diagonals.
+ */
+const SYMMETRIES: readonly Symmetry[] = [
+  ({ row, col }) => ({ row, col }),
+  ({ row, col }, size) => ({ row: col, col: size - 1 - row }),
+  ({ row, col }, size) => ({ row: size - 1 - row, col: size - 1 - col }),
+  ({ row, col }, size) => ({ row: size - 1 - col, col: row }),
+  ({ row, col }, size) => ({ row, col: size - 1 - col }),
+  ({ row, col }, size) => ({ row: size - 1 - row, col }),
+  ({ row, col }) => ({ row: col, col: row }),
+  ({ row, col }, size) => ({ row: size - 1 - col, col: size - 1 - row }),
+];
+
+/**
+ * Named move sequences from the standard starting position. A game follows a book line in any of
+ * the 8 orientations of the board, e.g. "F5 D6 C3 D3 C4" and the mirrored "E6 F4 C3 C4 D3" are
+ * both the Tiger.
+ */
+export class OpeningBook {
+  private readonly root: BookNode = { name: null, children: new Map() };
+  private readonly start = OthelloBoard.createEmpty();
+
+  /**
+   * Adds a line to the book. Returns an error if a move is not legal in the line.
+   */
+  public addLine(name: string, moves: string[]): InvalidBoardResult | null {
+    const board = this.start.clone();
+    let node = this.root;
+    for (const [index, move] of moves.entries()) {
+      const result = board.tryApplyMove(move);
+      if (isInvalidMoveResult(result)) {
+        return { error: `Illegal move ${move} (move ${index + 1}) in the opening ${name}.` };
+      }
+
+      const key = OthelloBoard.formatPosition(result.position);
+      let child = node.children.get(key);
+      if (!child) {
+        child = { name: null, children: new Map() };
+        node.children.set(key, child);
+      }
+      node = child;
+    }
+    node.name = name;
+    return null;
+  }
+
+  /**
+   * Name of the longest book line the game has followed so far, also after the game has left the
+   * book. Returns null if the game did not reach a named line.
+   */
+  public getOpeningName(board: OthelloBoard): string | null {
+    let name: string | null = null;
+    let depth = -1;
+    for (const { nodes } of this.findPaths(board)) {
+      for (const [index, node] of nodes.entries()) {
+        if (node.name !== null && index > depth) {
+          name = node.name;
+          depth = index;
+        }
+      }
+    }
+    return name;
+  }
+
+  /**
+   * The book moves in the current position, as positions on the given board. Empty if the game
+   * has left the book.
+   */
+  public getBookMoves(board: OthelloBoard): Position[] {
+    const size = board.getSize();
+    const paths = this.findPaths(board).filter(({ nodes }) => nodes.length === board.getHistory().length + 1);
+    return board
+      .getValidMoves()
+      .moves.map((move) => move.position)
+      .filter((position) =>
+        paths.some(({ transform, nodes }) =>
+          nodes.at(-1)!.children.has(OthelloBoard.formatPosition(transform(position, size))),
+        ),
+      );
+  }
+
+  /**
+   * Follows the game's moves through the book for every symmetry that maps the game's starting
+   * position onto the book's. Each path ends where the game leaves the book.
+   */
+  private findPaths(board: OthelloBoard): BookPath[] {
+    const size = board.getSize();
+    const initial = board.getBoardAt(0)!;
+    if (size !== this.start.getSize() || initial.getCurrentPlayer() !== this.start.getCurrentPlayer()) {
+      return [];
+    }
+
+    const paths: BookPath[] = [];
+    for (const transform of SYMMETRIES) {
+      if (!this.matchesStart(initial, transform)) {
+        continue;
+      }
+
+      const nodes = [this.root];
+      for (const entry of board.getHistory()) {
+        const key = entry.type === "move" ? OthelloBoard.formatPosition(transform(entry.position, size)) : null;
+        const next = key === null ? undefined : nodes.at(-1)!.children.get(key);
+        if (!next) {
+          break;
+        }
+        nodes.push(next);
+      }
+      paths.push({ transform, nodes });
+    }
+    return paths;
+  }
+
+  private matchesStart(initial: OthelloBoard, transform: Symmetry): boolean {
+    const size = initial.getSize();
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        if (initial.getCell({ row, col }) !== this.start.getCell(transform({ row, col }, size))) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * Reads an opening book with one line per opening: the moves from the standard starting position
+ * without separators, then the name, e.g. "f5d6c3d3c4 Tiger". Empty lines and lines starting with
+ * "#" are ignored.
+ */
+export function parseOpeningBook(text: string): OpeningBook | InvalidBoardResult {
+  const book = new OpeningBook();
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) {
+      continue;
+    }
+
+    const match = /^((?:[a-h][1-8])+)\s+(.+)$/i.exec(trimmed);
+    if (!match) {
+      return { error: `Invalid opening in line ${index + 1}: ${trimmed}` };
+    }
+    const moves = match[1]!.match(/[a-h][1-8]/gi)!;
+    const error = book.addLine(match[2]!, moves);
+    if (error) {
+      return { error: `Line ${index + 1}: ${error.error}` };
+    }
+  }
+  return book;
+}
+
+/**
+ * Creates the book with the STANDARD_OPENINGS.
+ */
+export function createStandardOpeningBook(): OpeningBook {
+  const book = parseOpeningBook(STANDARD_OPENINGS);
+  if (isInvalidBoardResult(book)) {
+    throw new Error(`Invalid standard opening book: ${book.error}`);
+  }
+  return book;
+}
+
+/**
+ * Plays a random book move while the game follows the book and leaves the other positions to the
+ * given strategy. Book moves have the score 0.
+ */
+export class BookStrategy implements Strategy {
+  public readonly name: string;
+
+  constructor(
+    private readonly book: OpeningBook,
+    private readonly strategy: Strategy,
+    private readonly random: () => number = Math.random,
+  ) {
+    this.name = strategy.name;
+  }
+
+  public chooseMove(board: OthelloBoard): EngineMove | null {
+    const moves = this.book.getBookMoves(board);
+    const position = moves[Math.floor(this.random() * moves.length)];
+    return position ? { position, score: 0 } : this.strategy.chooseMove(board);
+  }
+}
@@ -0,0 +1,20 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { parseArgs } from "util";
+import { createStreamableHTTPServer } from "./lib/streamable-http.js";
+import { SERVER_NAME, SERVER_VERSION, createOthelloServer } from "./server.js";
+
+// node dist/index.js             -> stdio (e.g. for VS Code or the MCP Inspector)
+// node dist/index.js --http      -> Streamable HTTP on http://127.0.0.1:3000/mcp
+const { values: args } = parseArgs({
+  options: {
+    http: { type: "boolean", default: false },
+    port: { type: "string", default: "3000" },
+  },
+});
+
+if (args.http) {
+  createStreamableHTTPServer(createOthelloServer, SERVER_NAME, SERVER_VERSION, Number(args.port));
+} else {
+  // stdout belongs to the protocol, so the server must not log to the console here
+  await createOthelloServer().connect(new StdioServerTransport());
+}
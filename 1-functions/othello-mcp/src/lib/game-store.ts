@@ -0,0 +1,48 @@
+import { OthelloBoard, type BoardOptions } from "othello-game";
+
+export type StoredGame = {
+  id: string;
+  board: OthelloBoard;
+};
+
+/**
+ * The games of one MCP session. Ids are consecutive numbers ("1", "2", ...) so that
+ * they are easy to use in tool calls and resource URIs.
+ */
+export class GameStore {
+  private readonly games = new Map<string, OthelloBoard>();
+  private nextId = 1;
+
+  /**
+   * Starts a new game in the starting position and returns it with its id.
+   * Throws a RangeError if the board size in the options is invalid.
+   */
+  public create(options: BoardOptions = {}): StoredGame {
+    const board = OthelloBoard.createEmpty(options);
+    const id = String(this.nextId);
+    this.nextId += 1;
+    this.games.set(id, board);
+    return { id, board };
+  }
+
+  /**
+   * Returns the board of the game with the given id, or undefined if there is no such game.
+   */
+  public get(id: string): OthelloBoard | undefined {
+    return this.games.get(id);
+  }
+
+  /**
+   * Returns all games, oldest first.
+   */
+  public list(): StoredGame[] {
+    return [...this.games].map(([id, board]) => ({ id, board }));
+  }
+
+  /**
+   * Removes the game with the given id. Returns false if there is no such game.
+   */
+  public delete(id: string): boolean {
+    return this.games.delete(id);
+  }
+}
@@ -0,0 +1,143 @@
+import express from "express";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { randomUUID } from "node:crypto";
+import cors from "cors";
+
+/**
+ * Creates and starts a streamable HTTP server for MCP (Model Context Protocol) communication.
+ *
+ * This function sets up a complete HTTP server that handles MCP protocol communication
+ * using the Streamable HTTP transport. It provides session management, automatic transport
+ * cleanup, and health monitoring capabilities.
+ *
+ * Unlike the helper in 3-streamable, this version creates a separate MCP server instance per session.
+ * An MCP server can only be connected to one transport at a time, and a server per session gives every
+ * client its own state (here: its own Othello games).
+ *
+ * HTTP Endpoints:
+ * - POST /mcp - Main JSON-RPC endpoint for MCP protocol communication
+ * - GET /mcp - Server-to-client notifications via Server-Sent Events (SSE)
+ * - DELETE /mcp - Session termination endpoint
+ * - GET /health - Health check endpoint with server status and active session count
+ *
+ * @param createServer - Factory for the MCP server instance of a new session
+ * @param serverName - Human-readable name for the server (used in logs and health checks)
+ * @param serverVersion - Version string for the server (used in logs and health checks)
+ * @param port - Default port number for the server (can be overridden by PORT environment variable)
+ */
+export function createStreamableHTTPServer(
+  createServer: () => McpServer,
+  serverName: string,
+  serverVersion: string,
+  port: number,
+): void {
+  // Initialize Express application for HTTP server
+  const app = express();
+  app.use(
+    cors({
+      origin: "*",
+      // Note: In CORS, “exposed headers” are the HTTP response headers that the browser
+      // is allowed to make visible to JavaScript code running in the web page.
+      exposedHeaders: ["Mcp-Session-Id"],
+    }),
+  );
+
+  // Configure Express to parse JSON request bodies automatically
+  app.use(express.json());
+
+  // Map to store active transports by session ID for session management
+  // This allows the server to reuse existing transports for ongoing sessions
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  /**
+   * Main MCP endpoint handler for JSON-RPC requests.
+   * Handles session management and routes requests to appropriate transports.
+   */
+  app.post("/mcp", async (req, res) => {
+    // Extract session ID from request headers (if present)
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    let transport = sessionId ? transports.get(sessionId) : undefined;
+
+    if (!transport && !sessionId && req.body && req.body.method === "initialize") {
+      // Create new transport for initial connection (initialize request)
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (sessionId) => {
+          // Store the transport for future reuse
+          transports.set(sessionId, newTransport);
+          // Set the session ID in response header so client knows what to use
+          res.setHeader("mcp-session-id", sessionId);
+        },
+      });
+
+      // Clean up transport when session closes to prevent memory leaks
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) {
+          transports.delete(newTransport.sessionId);
+        }
+      };
+
+      // Connect a new MCP server (with its own state) to the new transport.
+      // The cast is needed because the SDK's transport types do not support exactOptionalPropertyTypes.
+      await createServer().connect(newTransport as Transport);
+      transport = newTransport;
+    }
+
+    if (!transport) {
+      // Invalid request - no session ID provided for non-initialize requests
+      res.status(400).json({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Bad Request: No valid session ID provided",
+        },
+        id: null,
+      });
+      return;
+    }
+
+    // Delegate the actual request handling to the transport
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  /**
+   * Reusable handler for GET and DELETE requests that require session validation.
+   * Used for Server-Sent Events (SSE) notifications and session termination.
+   */
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    // Validate session ID exists and transport is available
+    const sessionId = req.headers["mcp-session-id"] as string | undefined;
+    const transport = sessionId ? transports.get(sessionId) : undefined;
+    if (!transport) {
+      res.status(400).send("Invalid or missing session ID");
+      return;
+    }
+
+    // Delegate request handling to the existing transport
+    await transport.handleRequest(req, res);
+  };
+
+  // Handle GET requests for server-to-client notifications via SSE
+  app.get("/mcp", handleSessionRequest);
+  // Handle DELETE requests for session termination
+  app.delete("/mcp", handleSessionRequest);
+
+  // Health check endpoint
+  app.get("/health", (req, res) => {
+    res.json({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      activeSessions: transports.size,
+      serverName: serverName,
+      serverVersion: serverVersion,
+    });
+  });
+
+  const PORT = process.env.PORT || port;
+  app.listen(PORT, () => {
+    console.log(`MCP server (${serverName}) running at http://127.0.0.1:${PORT}/mcp`);
+    console.log(`Health check: http://127.0.0.1:${PORT}/health`);
+  });
+}
@@ -0,0 +1,249 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ErrorCode, McpError, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  OthelloBoard,
+  STRATEGY_NAMES,
+  chooseMove,
+  exportPosition,
+  isInvalidMoveResult,
+  isValidBoardSize,
+  type StrategyName,
+} from "othello-game";
+import { z } from "zod";
+import { GameStore } from "./lib/game-store.js";
+
+export const SERVER_NAME = "othello-mcp";
+export const SERVER_VERSION = "1.0.0";
+
+const GameIdSchema = z.string().describe('Id of the game as returned by newGame, e.g. "1"');
+
+const GameStateSchema = {
+  gameId: z.string(),
+  board: z.string().describe("One line per row (row 1 first), B = black stone, W = white stone, . = empty field"),
+  position: z.string().describe('Single-line position including the player to move, e.g. "8/8/8/3WB3/3BW3/8/8/8 B"'),
+  currentPlayer: z.enum(["B", "W"]),
+  validMoves: z.array(z.string()).describe('Valid moves of the player to move, e.g. ["D3", "C4"]'),
+  mustPass: z.boolean().describe("True if the player to move has no valid moves and must call passTurn"),
+  isGameOver: z.boolean(),
+  winner: z.enum(["B", "W", "draw"]).nullable(),
+  black: z.number().describe("Number of black stones"),
+  white: z.number().describe("Number of white stones"),
+};
+
+type GameState = z.infer<z.ZodObject<typeof GameStateSchema>>;
+
+function getGameState(gameId: string, board: OthelloBoard): GameState {
+  const status = board.getGameStatus();
+  return {
+    gameId,
+    board: board.toString(),
+    position: exportPosition(board),
+    currentPlayer: status.currentPlayer,
+    validMoves: board.getValidMoves().moves.map((move) => OthelloBoard.formatPosition(move.position)),
+    mustPass: status.mustPass,
+    isGameOver: status.isGameOver,
+    winner: status.winner,
+    black: status.statistics.black,
+    white: status.statistics.white,
+  };
+}
+
+function toToolResult<T extends Record<string, unknown>>(structuredContent: T): CallToolResult {
+  return {
+    content: [{ type: "text", text: JSON.stringify(structuredContent) }],
+    structuredContent,
+  };
+}
+
+function toToolError(message: string): CallToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+function getBoardUri(gameId: string): string {
+  return `othello://game/${gameId}/board`;
+}
+
+/**
+ * Creates an MCP server with its own set of games. Create one server per client session
+ * so that clients do not see (or play in) each other's games.
+ */
+export function createOthelloServer(): McpServer {
+  const server = new McpServer({ name: SERVER_NAME, version: SERVER_VERSION });
+  const games = new GameStore();
+
+  /**
+   * Runs the handler with the board of the given game, or returns a tool error if there is no such game.
+   */
+  const withGame = (gameId: string, handler: (board: OthelloBoard) => CallToolResult): CallToolResult => {
+    const board = games.get(gameId);
+    return board ? handler(board) : toToolError(`Game "${gameId}" does not exist. Call newGame to start a game.`);
+  };
+
+  server.registerTool(
+    "newGame",
+    {
+      title: "Start a new game",
+      description:
+        "Starts a new Othello game and returns its id and initial state. Black moves first. Optionally choose the board size, the start layout and the beginner variant in which stones may be placed next to any stone without flipping.",
+      inputSchema: {
+        size: z
+          .number()
+          .int()
+          .min(MIN_BOARD_SIZE)
+          .max(MAX_BOARD_SIZE)
+          .default(8)
+          .describe("Rows and columns of the board, an even number"),
+        startLayout: z.enum(["crossed", "parallel"]).default("crossed"),
+        noFlipVariant: z.boolean().default(false),
+      },
+      outputSchema: GameStateSchema,
+    },
+    ({ size, startLayout, noFlipVariant }) => {
+      if (!isValidBoardSize(size)) {
+        return toToolError(`The board size must be an even number between ${MIN_BOARD_SIZE} and ${MAX_BOARD_SIZE}.`);
+      }
+
+      const { id, board } = games.create({ size, startLayout, allowNoFlipMoves: noFlipVariant });
+      server.sendResourceListChanged();
+      return toToolResult(getGameState(id, board));
+    },
+  );
+
+  server.registerTool(
+    "listGames",
+    {
+      title: "List games",
+      description: "Lists all games of this session with their current state.",
+      inputSchema: {},
+      outputSchema: { games: z.array(z.object(GameStateSchema)) },
+    },
+    () => toToolResult({ games: games.list().map(({ id, board }) => getGameState(id, board)) }),
+  );
+
+  server.registerTool(
+    "getGameState",
+    {
+      title: "Get the game state",
+      description:
+        "Returns the board, the player to move, the valid moves of that player, whether they must pass, whether the game is over (and who won) and the stone counts.",
+      inputSchema: { gameId: GameIdSchema },
+      outputSchema: GameStateSchema,
+    },
+    ({ gameId }) => withGame(gameId, (board) => toToolResult(getGameState(gameId, board))),
+  );
+
+  server.registerTool(
+    "tryApplyMove",
+    {
+      title: "Make a move",
+      description:
+        "Places a stone of the player to move on the given field (column letter and row number, e.g. D3) and flips the captured stones. If the move is not allowed, the result contains the reason (unparsable, off-board, occupied, no-flips, game-over) and the board is unchanged.",
+      inputSchema: {
+        gameId: GameIdSchema,
+        position: z.string().describe('Field in algebraic notation, e.g. "D3"'),
+      },
+      outputSchema: {
+        ...GameStateSchema,
+        accepted: z.boolean(),
+        flipped: z.array(z.string()).describe("Stones flipped by the move").optional(),
+        reason: z.string().describe("Why the move was rejected").optional(),
+        error: z.string().optional(),
+      },
+    },
+    ({ gameId, position }) =>
+      withGame(gameId, (board) => {
+        const result = board.tryApplyMove(position);
+        const outcome = isInvalidMoveResult(result)
+          ? { accepted: false, reason: result.reason, error: result.error }
+          : { accepted: true, flipped: result.flippedPositions.map((flipped) => OthelloBoard.formatPosition(flipped)) };
+        return toToolResult({ ...outcome, ...getGameState(gameId, board) });
+      }),
+  );
+
+  server.registerTool(
+    "passTurn",
+    {
+      title: "Pass",
+      description:
+        "Passes the turn to the opponent. Only allowed if the player to move has no valid moves and the game is not over.",
+      inputSchema: { gameId: GameIdSchema },
+      outputSchema: { ...GameStateSchema, accepted: z.boolean() },
+    },
+    ({ gameId }) => withGame(gameId, (board) => toToolResult({ accepted: board.pass(), ...getGameState(gameId, board) })),
+  );
+
+  server.registerTool(
+    "undoMove",
+    {
+      title: "Take back a move",
+      description: "Takes back the last move or pass of the game.",
+      inputSchema: { gameId: GameIdSchema },
+      outputSchema: { ...GameStateSchema, accepted: z.boolean() },
+    },
+    ({ gameId }) => withGame(gameId, (board) => toToolResult({ accepted: board.undo(), ...getGameState(gameId, board) })),
+  );
+
+  server.registerTool(
+    "getEngineSuggestion",
+    {
+      title: "Ask the engine for a move",
+      description:
+        "Asks the built-in Othello engine for a move for the player to move. The minimax strategy (default) is the strongest. Returns null as suggestion if the player must pass.",
+      inputSchema: {
+        gameId: GameIdSchema,
+        strategy: z.enum(STRATEGY_NAMES as [StrategyName, ...StrategyName[]]).default("minimax"),
+        depth: z.number().int().min(1).max(10).default(6).describe("Search depth in plies for the minimax strategy"),
+      },
+      outputSchema: {
+        gameId: z.string(),
+        suggestion: z.string().nullable().describe('Suggested field, e.g. "D3"'),
+        score: z.number().nullable().describe("Evaluation from the perspective of the player to move, higher is better"),
+      },
+    },
+    ({ gameId, strategy, depth }) =>
+      withGame(gameId, (board) => {
+        const suggestion = chooseMove(board, { strategy, depth, timeLimitMs: 2000 });
+        return toToolResult({
+          gameId,
+          suggestion: suggestion ? OthelloBoard.formatPosition(suggestion.position) : null,
+          score: suggestion?.score ?? null,
+        });
+      }),
+  );
+
+  server.registerResource(
+    "othello-board",
+    new ResourceTemplate("othello://game/{id}/board", {
+      list: () => ({
+        resources: games.list().map(({ id }) => ({ uri: getBoardUri(id), name: `Game ${id}`, mimeType: "text/plain" })),
+      }),
+      complete: {
+        id: (value) =>
+          games
+            .list()
+            .map(({ id }) => id)
+            .filter((id) => id.startsWith(value)),
+      },
+    }),
+    {
+      title: "Othello board",
+      description: "The board of a game with row and column labels (● black, ○ white) and the player to move.",
+      mimeType: "text/plain; charset=utf-8",
+    },
+    (uri, { id }) => {
+      const gameId = String(id);
+      const board = games.get(gameId);
+      if (!board) {
+        throw new McpError(ErrorCode.InvalidParams, `Game "${gameId}" does not exist.`);
+      }
+
+      const player = board.getCurrentPlayer() === "B" ? "Black (●)" : "White (○)";
+      const text = `${board.toFormattedString()}\n\n${board.isGameOver() ? "Game over" : `${player} to move`}\n`;
+      return { contents: [{ uri: uri.href, text }] };
+    },
+  );
+
+  return server;
+}
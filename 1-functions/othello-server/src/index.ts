@@ -0,0 +1,35 @@
+import { parseArgs } from "util";
+import { createGameServer } from "./server.js";
+
+// node dist/index.js                       -> WebSocket server on ws://0.0.0.0:3001
+// --port <port>                            Port (default 3001, or the PORT environment variable)
+// --move-timeout <seconds>                 Time for each move, the player to move loses when it runs out (default 120, 0 = no limit)
+// --reconnect-timeout <seconds>            Time a disconnected player has to reconnect before losing the game (default 60)
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: "3001" },
+    "move-timeout": { type: "string", default: "120" },
+    "reconnect-timeout": { type: "string", default: "60" },
+  },
+});
+
+const seconds = (name: "move-timeout" | "reconnect-timeout"): number => {
+  const value = Number(args[name]);
+  if (!Number.isFinite(value) || value < 0) {
+    console.error(`Invalid --${name} "${args[name]}". Use a number of seconds.`);
+    process.exit(1);
+  }
+  return value * 1000;
+};
+
+const server = createGameServer({
+  moveTimeoutMs: seconds("move-timeout"),
+  reconnectTimeoutMs: seconds("reconnect-timeout"),
+});
+
+const PORT = Number(process.env.PORT || args.port);
+server.listen(PORT, () => {
+  console.log(`Othello game server running at ws://127.0.0.1:${PORT}`);
+  console.log(`Players on other machines connect with ws://<this machine's address>:${PORT}`);
+  console.log(`Rooms: http://127.0.0.1:${PORT}/rooms`);
+});
@@ -0,0 +1,306 @@
+import { randomUUID } from "node:crypto";
+import { OthelloBoard, exportPosition, isInvalidMoveResult, type Player } from "othello-game";
+import type { WebSocket } from "ws";
+import type { RoomResult, RoomState, RoomStatus, ServerMessage } from "../protocol.js";
+
+export type RoomOptions = {
+  /**
+   * Time for each move in milliseconds; the player to move loses when it runs out. 0 disables the limit.
+   */
+  moveTimeoutMs: number;
+  /**
+   * Time in milliseconds a disconnected player has to reconnect before losing the game.
+   */
+  reconnectTimeoutMs: number;
+};
+
+export type JoinResult = { color: Player; token: string } | { error: string };
+
+type Seat = {
+  name: string;
+  token: string;
+  socket: WebSocket | null;
+  reconnectTimer: NodeJS.Timeout | null;
+};
+
+const PLAYERS: Player[] = ["B", "W"];
+
+/**
+ * One game between two players. The first player to join plays Black, the second White; the game
+ * starts when both are there. Every change is sent to both players as a "state" message.
+ */
+export class Room {
+  private readonly board = OthelloBoard.createEmpty();
+  private readonly seats: Record<Player, Seat | null> = { B: null, W: null };
+  private lastMove: RoomState["lastMove"] = null;
+  private passed: Player[] = [];
+  private result: RoomResult | null = null;
+  private moveTimer: NodeJS.Timeout | null = null;
+  private moveDeadline: number | null = null;
+
+  constructor(
+    public readonly id: string,
+    private readonly options: RoomOptions,
+  ) {}
+
+  public getStatus(): RoomStatus {
+    if (this.result) {
+      return "finished";
+    }
+    return this.seats.B && this.seats.W ? "playing" : "waiting";
+  }
+
+  /**
+   * True if no player is connected and nobody can take a seat back, so the room can be removed.
+   */
+  public isAbandoned(): boolean {
+    return this.getStatus() !== "playing" && PLAYERS.every((player) => !this.seats[player]?.socket);
+  }
+
+  /**
+   * Seats the client: with the token of a seat on its old seat, otherwise on a free seat. The name
+   * alone does not give a seat back, as anybody could send it. On success, the client gets a "joined"
+   * message before the new state.
+   */
+  public join(socket: WebSocket, name: string | undefined, token: string | undefined): JoinResult {
+    const returning = token === undefined ? undefined : PLAYERS.find((player) => this.seats[player]?.token === token);
+
+    if (returning) {
+      const seat = this.seats[returning]!;
+      if (seat.socket && seat.socket !== socket) {
+        // The old connection is still open (e.g. not yet timed out), the new one replaces it
+        seat.socket.close(4000, "Replaced by a new connection");
+      }
+      seat.socket = socket;
+      this.clearReconnectTimer(seat);
+      this.send(socket, {
+        type: "joined",
+        room: this.id,
+        color: returning,
+        token: seat.token,
+      });
+      this.notify(`${seat.name} is back.`, returning);
+      this.broadcastState();
+      return { color: returning, token: seat.token };
+    }
+
+    const color = PLAYERS.find((player) => !this.seats[player]);
+    if (!color || this.result) {
+      return { error: `Room "${this.id}" is full.` };
+    }
+
+    const seat: Seat = {
+      name: name ?? (color === "B" ? "Black" : "White"),
+      token: randomUUID(),
+      socket,
+      reconnectTimer: null,
+    };
+    this.seats[color] = seat;
+    this.send(socket, {
+      type: "joined",
+      room: this.id,
+      color,
+      token: seat.token,
+    });
+    this.notify(`${seat.name} joined.`, color);
+    if (this.getStatus() === "playing") {
+      this.startMoveTimer();
+    }
+    this.broadcastState();
+    return { color, token: seat.token };
+  }
+
+  /**
+   * Plays a move of the client's player. Players who cannot move afterwards pass automatically.
+   */
+  public move(socket: WebSocket, position: string): void {
+    const color = this.getColor(socket);
+    const error = this.checkTurn(color);
+    if (error) {
+      this.send(socket, { type: "error", message: error });
+      return;
+    }
+
+    const result = this.board.tryApplyMove(position);
+    if (isInvalidMoveResult(result)) {
+      this.send(socket, { type: "error", message: result.error });
+      return;
+    }
+
+    this.lastMove = {
+      player: result.player,
+      position: OthelloBoard.formatPosition(result.position),
+      flipped: result.flippedPositions.length,
+    };
+    this.passed = [];
+    while (this.board.pass()) {
+      this.passed.push(this.board.getHistory().at(-1)!.player);
+    }
+
+    if (this.board.isGameOver()) {
+      this.finish(this.board.getWinner() ?? "draw", "game-over");
+    } else {
+      this.startMoveTimer();
+    }
+    this.broadcastState();
+  }
+
+  public resign(socket: WebSocket): void {
+    const color = this.getColor(socket);
+    if (!color || this.getStatus() !== "playing") {
+      this.send(socket, {
+        type: "error",
+        message: "There is no game to resign.",
+      });
+      return;
+    }
+    this.finish(opponent(color), "resigned");
+    this.notify(`${this.seats[color]!.name} resigned.`);
+    this.broadcastState();
+  }
+
+  /**
+   * Called when the connection of a client closes. During a game, the player has reconnectTimeoutMs
+   * to come back; in a room that still waits for the second player, the seat is freed.
+   */
+  public disconnect(socket: WebSocket): void {
+    const color = this.getColor(socket);
+    if (!color) {
+      return;
+    }
+    const seat = this.seats[color]!;
+    seat.socket = null;
+
+    if (this.getStatus() === "waiting") {
+      this.seats[color] = null;
+      return;
+    }
+    if (this.getStatus() === "playing") {
+      const seconds = Math.round(this.options.reconnectTimeoutMs / 1000);
+      this.notify(`${seat.name} lost the connection and has ${seconds}s to reconnect.`);
+      seat.reconnectTimer = setTimeout(() => {
+        seat.reconnectTimer = null;
+        this.finish(opponent(color), "abandoned");
+        this.notify(`${seat.name} did not come back.`);
+        this.broadcastState();
+      }, this.options.reconnectTimeoutMs);
+    }
+    this.broadcastState();
+  }
+
+  /**
+   * Stops all timers, e.g. when the server shuts down.
+   */
+  public close(): void {
+    this.stopMoveTimer();
+    for (const player of PLAYERS) {
+      const seat = this.seats[player];
+      if (seat) {
+        this.clearReconnectTimer(seat);
+      }
+    }
+  }
+
+  public getState(): RoomState {
+    const isPlaying = this.getStatus() === "playing";
+    const seatState = (player: Player) => {
+      const seat = this.seats[player];
+      return seat ? { name: seat.name, connected: seat.socket !== null } : null;
+    };
+    return {
+      room: this.id,
+      status: this.getStatus(),
+      position: exportPosition(this.board),
+      currentPlayer: this.board.getCurrentPlayer(),
+      validMoves: isPlaying ? this.board.getValidMoves().moves.map((move) => OthelloBoard.formatPosition(move.position)) : [],
+      players: { B: seatState("B"), W: seatState("W") },
+      lastMove: this.lastMove,
+      passed: this.passed,
+      moveDeadline: isPlaying ? this.moveDeadline : null,
+      result: this.result,
+    };
+  }
+
+  private checkTurn(color: Player | null): string | null {
+    if (!color) {
+      return "Join a room first.";
+    }
+    const status = this.getStatus();
+    if (status !== "playing") {
+      return status === "waiting" ? "Waiting for the second player." : "The game is over.";
+    }
+    return color === this.board.getCurrentPlayer() ? null : "It is not your turn.";
+  }
+
+  private finish(winner: RoomResult["winner"], reason: RoomResult["reason"]): void {
+    const { black, white } = this.board.getGameStatistics();
+    this.result = { winner, reason, black, white };
+    this.close();
+  }
+
+  private startMoveTimer(): void {
+    this.stopMoveTimer();
+    if (this.options.moveTimeoutMs <= 0) {
+      return;
+    }
+    const player = this.board.getCurrentPlayer();
+    this.moveDeadline = Date.now() + this.options.moveTimeoutMs;
+    this.moveTimer = setTimeout(() => {
+      this.moveTimer = null;
+      this.finish(opponent(player), "timeout");
+      this.notify(`${this.seats[player]?.name ?? player} ran out of time.`);
+      this.broadcastState();
+    }, this.options.moveTimeoutMs);
+  }
+
+  private stopMoveTimer(): void {
+    if (this.moveTimer) {
+      clearTimeout(this.moveTimer);
+      this.moveTimer = null;
+    }
+    this.moveDeadline = null;
+  }
+
+  private clearReconnectTimer(seat: Seat): void {
+    if (seat.reconnectTimer) {
+      clearTimeout(seat.reconnectTimer);
+      seat.reconnectTimer = null;
+    }
+  }
+
+  private getColor(socket: WebSocket): Player | null {
+    return PLAYERS.find((player) => this.seats[player]?.socket === socket) ?? null;
+  }
+
+  /**
+   * Sends a notice to all connected players, except the given one.
+   */
+  private notify(message: string, except?: Player): void {
+    for (const player of PLAYERS) {
+      const socket = this.seats[player]?.socket;
+      if (socket && player !== except) {
+        this.send(socket, { type: "notice", message });
+      }
+    }
+  }
+
+  private broadcastState(): void {
+    const state = this.getState();
+    for (const player of PLAYERS) {
+      const socket = this.seats[player]?.socket;
+      if (socket) {
+        this.send(socket, { type: "state", state });
+      }
+    }
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+function opponent(player: Player): Player {
+  return player === "B" ? "W" : "B";
+}
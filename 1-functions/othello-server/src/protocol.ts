@@ -0,0 +1,73 @@
+import type { GameResult, Player } from "othello-game";
+import { z } from "zod";
+
+/**
+ * Messages from the client to the server, sent as JSON text frames.
+ */
+export const ClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join"),
+    room: z.string().trim().min(1).max(40),
+    name: z.string().trim().min(1).max(40).optional(),
+    /**
+     * Token from an earlier "joined" message, to take the seat back after a reconnect.
+     */
+    token: z.string().optional(),
+  }),
+  z.object({ type: z.literal("move"), position: z.string() }),
+  z.object({ type: z.literal("resign") }),
+]);
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+export type SeatState = {
+  name: string;
+  connected: boolean;
+};
+
+export type RoomStatus = "waiting" | "playing" | "finished";
+
+export type RoomResult = {
+  winner: GameResult;
+  /**
+   * "game-over": no player can move; "resigned", "timeout" (no move within the move time) and
+   * "abandoned" (no reconnect in time) end the game for the player who did not move.
+   */
+  reason: "game-over" | "resigned" | "timeout" | "abandoned";
+  black: number;
+  white: number;
+};
+
+/**
+ * Everything a client needs to show the game. It is sent to both players after every change.
+ */
+export type RoomState = {
+  room: string;
+  status: RoomStatus;
+  /**
+   * Single-line position including the player to move (see exportPosition), load it with importPosition.
+   */
+  position: string;
+  currentPlayer: Player;
+  validMoves: string[];
+  players: Record<Player, SeatState | null>;
+  lastMove: { player: Player; position: string; flipped: number } | null;
+  /**
+   * Players who had to pass after the last move; the server makes the passes.
+   */
+  passed: Player[];
+  /**
+   * Time (ms since epoch) by which the player to move has to move, null without a move time limit.
+   */
+  moveDeadline: number | null;
+  result: RoomResult | null;
+};
+
+/**
+ * Messages from the server to the client.
+ */
+export type ServerMessage =
+  | { type: "joined"; room: string; color: Player; token: string }
+  | { type: "state"; state: RoomState }
+  | { type: "notice"; message: string }
+  | { type: "error"; message: string };
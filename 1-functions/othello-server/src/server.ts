@@ -0,0 +1,148 @@
+import express from "express";
+import { createServer, type Server } from "node:http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { Room, type RoomOptions } from "./lib/room.js";
+import { ClientMessageSchema, type ClientMessage, type ServerMessage } from "./protocol.js";
+
+export const SERVER_NAME = "othello-server";
+export const SERVER_VERSION = "1.0.0";
+
+/**
+ * Interval of the WebSocket pings. A connection that has not answered the previous ping is closed,
+ * which starts the reconnect timeout of its player.
+ */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Creates an HTTP server (not yet listening) that hosts Othello games in rooms. Clients connect via
+ * WebSocket to any path and join a room with a "join" message (see ClientMessage); the room is created
+ * by the first player.
+ *
+ * HTTP Endpoints:
+ * - GET /health - Health check with the number of rooms and connections
+ * - GET /rooms - The rooms with their status and players
+ */
+export function createGameServer(options: RoomOptions): Server {
+  const rooms = new Map<string, Room>();
+  // Room of each connection, set by its "join" message
+  const connections = new Map<WebSocket, Room | null>();
+  const alive = new WeakSet<WebSocket>();
+
+  const app = express();
+
+  app.get("/health", (req, res) => {
+    res.json({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      rooms: rooms.size,
+      connections: connections.size,
+      serverName: SERVER_NAME,
+      serverVersion: SERVER_VERSION,
+    });
+  });
+
+  app.get("/rooms", (req, res) => {
+    res.json(
+      [...rooms.values()].map((room) => {
+        const { status, players } = room.getState();
+        return { room: room.id, status, players };
+      }),
+    );
+  });
+
+  const server = createServer(app);
+  const wss = new WebSocketServer({ server });
+
+  const send = (socket: WebSocket, message: ServerMessage) => socket.send(JSON.stringify(message));
+
+  const handleMessage = (socket: WebSocket, message: ClientMessage) => {
+    const room = connections.get(socket) ?? null;
+
+    if (message.type === "join") {
+      // Also a second join for the same room, which would give the client the other seat as well
+      if (room) {
+        send(socket, {
+          type: "error",
+          message: `You are already in room "${room.id}".`,
+        });
+        return;
+      }
+      let target = rooms.get(message.room);
+      if (!target) {
+        target = new Room(message.room, options);
+        rooms.set(message.room, target);
+      }
+      const result = target.join(socket, message.name, message.token);
+      if ("error" in result) {
+        send(socket, { type: "error", message: result.error });
+        return;
+      }
+      connections.set(socket, target);
+      return;
+    }
+
+    if (!room) {
+      send(socket, { type: "error", message: "Join a room first." });
+    } else if (message.type === "move") {
+      room.move(socket, message.position);
+    } else {
+      room.resign(socket);
+    }
+  };
+
+  wss.on("connection", (socket) => {
+    connections.set(socket, null);
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    socket.on("message", (data) => {
+      let json: unknown;
+      try {
+        json = JSON.parse(data.toString());
+      } catch {
+        send(socket, { type: "error", message: "Messages must be JSON." });
+        return;
+      }
+      const message = ClientMessageSchema.safeParse(json);
+      if (!message.success) {
+        send(socket, {
+          type: "error",
+          message: `Invalid message: ${message.error.message}`,
+        });
+        return;
+      }
+      handleMessage(socket, message.data);
+    });
+
+    socket.on("close", () => {
+      connections.get(socket)?.disconnect(socket);
+      connections.delete(socket);
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const socket of connections.keys()) {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      alive.delete(socket);
+      socket.ping();
+    }
+    for (const [id, room] of rooms) {
+      if (room.isAbandoned()) {
+        room.close();
+        rooms.delete(id);
+      }
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    for (const room of rooms.values()) {
+      room.close();
+    }
+  });
+
+  return server;
+}